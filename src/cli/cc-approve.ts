@@ -0,0 +1,170 @@
+import * as fs from 'fs'
+import {
+  findRunningSessions,
+  getSessionSocketPath,
+  sendControlRequest,
+  type ControlRequest,
+} from '../terminal/control-socket.js'
+import type { PendingPrompt } from '../core/pending-prompts.js'
+
+export interface CcApproveOptions {
+  id?: string
+  deny?: boolean
+  list?: boolean
+  session?: string
+  json?: boolean
+}
+
+function printUsage(): void {
+  console.log('Usage: claude-composer cc-approve [id] [options]')
+  console.log(
+    '\nAnswer a prompt waiting in a running Claude Composer session. Without an id the oldest prompt is answered.',
+  )
+  console.log('\nOptions:')
+  console.log('  --deny                   Deny the prompt instead of approving')
+  console.log(
+    '  --list                   List the prompts waiting for an answer',
+  )
+  console.log(
+    '  --session <pid|socket>   Session to use when several are running',
+  )
+  console.log('  --json                   Print the response as JSON')
+  console.log('  -h, --help               Show this help message')
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`)
+  process.exit(1)
+}
+
+export function formatPendingPrompt(
+  prompt: PendingPrompt,
+  now: number = Date.now(),
+): string {
+  const seconds = Math.max(
+    0,
+    Math.round((now - Date.parse(prompt.promptedAt)) / 1000),
+  )
+  const lines = [
+    `[${prompt.id}] ${prompt.patternTitle} (${prompt.patternId}, ${seconds}s ago)`,
+  ]
+  for (const [key, value] of Object.entries(prompt.extractedData ?? {})) {
+    lines.push(`    ${key}: ${value}`)
+  }
+  return lines.join('\n')
+}
+
+async function resolveSocketPath(session?: string): Promise<string> {
+  if (session) {
+    const socketPath = /^\d+$/.test(session)
+      ? getSessionSocketPath(Number(session))
+      : session
+    if (!fs.existsSync(socketPath)) {
+      fail(`No session socket at ${socketPath}`)
+    }
+    return socketPath
+  }
+
+  const sessions = await findRunningSessions()
+  if (sessions.length === 0) {
+    fail(
+      'No running Claude Composer sessions found, sessions only listen with control_socket: true in the config',
+    )
+  }
+  if (sessions.length === 1) {
+    return sessions[0].socketPath
+  }
+
+  // Prefer the session started in this directory
+  const here = sessions.filter(s => s.cwd === process.cwd())
+  if (here.length === 1) {
+    return here[0].socketPath
+  }
+
+  console.error('Error: Several sessions are running, pick one with --session:')
+  for (const s of sessions) {
+    console.error(`  ${s.pid}  ${s.cwd}`)
+  }
+  process.exit(1)
+}
+
+export async function handleCcApprove(args: string[]): Promise<void> {
+  const options: CcApproveOptions = {}
+
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage()
+    process.exit(0)
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    switch (arg) {
+      case '--deny':
+        options.deny = true
+        break
+      case '--list':
+        options.list = true
+        break
+      case '--json':
+        options.json = true
+        break
+      case '--session':
+        options.session = args[++i]
+        if (!options.session) {
+          fail('--session needs a pid or socket path')
+        }
+        break
+      default:
+        if (arg.startsWith('-')) {
+          console.error(`Unknown option: ${arg}`)
+          process.exit(1)
+        }
+        if (options.id !== undefined) {
+          fail(`Unexpected argument: ${arg}`)
+        }
+        options.id = arg
+    }
+  }
+
+  if (options.list && (options.deny || options.id !== undefined)) {
+    fail('--list can not be combined with a prompt id or --deny')
+  }
+
+  const socketPath = await resolveSocketPath(options.session)
+  const request: ControlRequest = options.list
+    ? { command: 'list' }
+    : { command: options.deny ? 'deny' : 'approve', id: options.id }
+
+  let response
+  try {
+    response = await sendControlRequest(socketPath, request)
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error))
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(response, null, 2))
+    process.exit(response.ok ? 0 : 1)
+  }
+
+  if (!response.ok) {
+    fail(response.error)
+  }
+
+  if (options.list) {
+    const prompts = response.prompts ?? []
+    console.log(`Session ${response.session.pid} (${response.session.cwd})`)
+    if (prompts.length === 0) {
+      console.log('No prompts are waiting for an answer')
+    }
+    for (const prompt of prompts) {
+      console.log(formatPendingPrompt(prompt))
+    }
+    return
+  }
+
+  const prompt = response.prompt!
+  console.log(
+    `${options.deny ? '👎 Denied' : '👍 Approved'} [${prompt.id}] ${prompt.patternTitle}`,
+  )
+}
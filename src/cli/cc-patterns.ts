@@ -0,0 +1,407 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { PatternConfig } from '../config/schemas.js'
+import { loadConfigFile } from '../config/loader.js'
+import {
+  createAppReadyPattern,
+  createTrustPromptPattern,
+} from '../patterns/registry.js'
+import {
+  loadConfiguredPatterns,
+  type ActivePattern,
+} from '../patterns/active.js'
+import { PatternMatcher, type MatchResult } from '../patterns/matcher.js'
+
+export interface ExpectedMatch {
+  patternId: string
+  extractedData?: Record<string, string>
+}
+
+export interface CcPatternsTestOptions {
+  snapshots: string[]
+  expect?: boolean
+  update?: boolean
+}
+
+function printUsage(): void {
+  console.log('Usage: claude-composer cc-patterns <command> [options]')
+  console.log('\nCommands:')
+  console.log('  list                      List the active patterns')
+  console.log(
+    '  show <id>                 Show a pattern and its current response',
+  )
+  console.log(
+    '  test <snapshot.json...>   Match the patterns against terminal snapshots',
+  )
+  console.log('\nOptions for test:')
+  console.log(
+    '  --expect                  Compare each snapshot with its .expect.json file',
+  )
+  console.log(
+    '  --update                  Write the .expect.json files from the current matches',
+  )
+  console.log('  -h, --help                Show this help message')
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`)
+  process.exit(1)
+}
+
+/**
+ * The patterns a session starts with: the configured patterns and the
+ * patterns the session adds itself
+ */
+export async function loadActivePatterns(): Promise<ActivePattern[]> {
+  const appConfig = await loadConfigFile()
+  const active = await loadConfiguredPatterns(appConfig.allow_project_patterns)
+
+  active.push({
+    pattern: createTrustPromptPattern(() => appConfig),
+    source: 'dynamic',
+  })
+  active.push({
+    pattern: createAppReadyPattern(() => ({ mode: appConfig.mode })),
+    source: 'dynamic',
+    condition: 'when a mode or a prompt is given',
+  })
+  return active
+}
+
+/**
+ * Read the terminal content saved by --allow-buffer-snapshots
+ */
+export function readSnapshotContent(filePath: string): string {
+  let snapshot: unknown
+  try {
+    snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`${filePath} is not valid JSON`)
+  }
+  if (
+    typeof snapshot !== 'object' ||
+    snapshot === null ||
+    !('terminalContent' in snapshot) ||
+    typeof snapshot.terminalContent !== 'string'
+  ) {
+    throw new Error(`${filePath} has no terminalContent`)
+  }
+  return snapshot.terminalContent
+}
+
+export function matchSnapshot(
+  content: string,
+  patternsToMatch: PatternConfig[],
+): MatchResult[] {
+  const matcher = new PatternMatcher(false)
+  for (const pattern of patternsToMatch) {
+    matcher.addPattern(pattern)
+  }
+  // Serialized snapshots separate rows with \r\n, live screens with \n
+  return matcher.processData(content.replace(/\r\n/g, '\n'))
+}
+
+export function getExpectPath(snapshotPath: string): string {
+  return path.join(
+    path.dirname(snapshotPath),
+    `${path.basename(snapshotPath, '.json')}.expect.json`,
+  )
+}
+
+export function toExpectedMatches(matches: MatchResult[]): ExpectedMatch[] {
+  return matches.map(match => ({
+    patternId: match.patternId,
+    ...(match.extractedData ? { extractedData: match.extractedData } : {}),
+  }))
+}
+
+/**
+ * Differences between the matches and the expected ones. Extracted data is
+ * only compared for expectations that list it, and then only the listed keys.
+ */
+export function compareMatches(
+  matches: MatchResult[],
+  expected: ExpectedMatch[],
+): string[] {
+  const differences: string[] = []
+
+  for (let i = 0; i < Math.max(matches.length, expected.length); i++) {
+    const match = matches[i]
+    const expectation = expected[i]
+    if (!expectation) {
+      differences.push(`unexpected match ${match.patternId}`)
+      continue
+    }
+    if (!match) {
+      differences.push(`expected ${expectation.patternId}, nothing matched`)
+      continue
+    }
+    if (match.patternId !== expectation.patternId) {
+      differences.push(
+        `expected ${expectation.patternId}, matched ${match.patternId}`,
+      )
+      continue
+    }
+    for (const [key, value] of Object.entries(
+      expectation.extractedData ?? {},
+    )) {
+      const actual = match.extractedData?.[key]
+      if (actual !== value) {
+        differences.push(
+          `${match.patternId} ${key}: expected ${JSON.stringify(value)}, got ${actual === undefined ? 'nothing' : JSON.stringify(actual)}`,
+        )
+      }
+    }
+  }
+
+  return differences
+}
+
+export function formatMatch(match: MatchResult): string {
+  const lines = [
+    `  ${match.patternId}  lines ${match.firstLineNumber + 1}-${match.lastLineNumber + 1}`,
+  ]
+  for (const [key, value] of Object.entries(match.extractedData ?? {})) {
+    lines.push(`      ${key}: ${value}`)
+  }
+  return lines.join('\n')
+}
+
+function readExpectations(expectPath: string): ExpectedMatch[] {
+  let expected: unknown
+  try {
+    expected = JSON.parse(fs.readFileSync(expectPath, 'utf8'))
+  } catch (error) {
+    throw new Error(`${expectPath} is not valid JSON`)
+  }
+  if (
+    !Array.isArray(expected) ||
+    !expected.every(entry => typeof entry?.patternId === 'string')
+  ) {
+    throw new Error(`${expectPath} must be a list of { patternId } entries`)
+  }
+  return expected
+}
+
+async function handleTest(args: string[]): Promise<void> {
+  const options: CcPatternsTestOptions = { snapshots: [] }
+
+  for (const arg of args) {
+    switch (arg) {
+      case '--expect':
+        options.expect = true
+        break
+      case '--update':
+        options.update = true
+        break
+      default:
+        if (arg.startsWith('-')) {
+          console.error(`Unknown option: ${arg}`)
+          process.exit(1)
+        }
+        options.snapshots.push(arg)
+    }
+  }
+
+  if (options.snapshots.length === 0) {
+    fail('cc-patterns test needs at least one snapshot file')
+  }
+  if (options.expect && options.update) {
+    fail('--expect can not be combined with --update')
+  }
+
+  // Patterns that are only sometimes added would match idle screens
+  const activePatterns = (await loadActivePatterns())
+    .filter(active => !active.condition)
+    .map(active => active.pattern)
+  let failures = 0
+
+  for (const snapshotPath of options.snapshots) {
+    let matches: MatchResult[]
+    try {
+      matches = matchSnapshot(readSnapshotContent(snapshotPath), activePatterns)
+    } catch (error) {
+      console.error(
+        `✗ ${error instanceof Error ? error.message : String(error)}`,
+      )
+      failures++
+      continue
+    }
+
+    const expectPath = getExpectPath(snapshotPath)
+    if (options.update) {
+      fs.writeFileSync(
+        expectPath,
+        JSON.stringify(toExpectedMatches(matches), null, 2) + '\n',
+      )
+      console.log(`Wrote ${expectPath}`)
+      continue
+    }
+
+    if (!options.expect) {
+      console.log(snapshotPath)
+      if (matches.length === 0) {
+        console.log('  No patterns matched')
+      }
+      for (const match of matches) {
+        console.log(formatMatch(match))
+      }
+      continue
+    }
+
+    if (!fs.existsSync(expectPath)) {
+      console.log(`✗ ${snapshotPath}`)
+      console.log(`    ${expectPath} not found, create it with --update`)
+      failures++
+      continue
+    }
+
+    let differences: string[]
+    try {
+      differences = compareMatches(matches, readExpectations(expectPath))
+    } catch (error) {
+      console.log(`✗ ${snapshotPath}`)
+      console.log(`    ${error instanceof Error ? error.message : error}`)
+      failures++
+      continue
+    }
+
+    console.log(`${differences.length === 0 ? '✓' : '✗'} ${snapshotPath}`)
+    for (const difference of differences) {
+      console.log(`    ${difference}`)
+    }
+    if (differences.length > 0) {
+      failures++
+    }
+  }
+
+  if (options.expect) {
+    const passed = options.snapshots.length - failures
+    console.log(
+      `\n${passed} of ${options.snapshots.length} snapshot${options.snapshots.length === 1 ? '' : 's'} matched expectations`,
+    )
+  }
+  if (failures > 0) {
+    process.exit(1)
+  }
+}
+
+export function formatSource(active: ActivePattern): string {
+  switch (active.source) {
+    case 'env':
+      return `CLAUDE_PATTERNS_PATH ${active.sourcePath}`
+    case 'file':
+      return active.overrides
+        ? `${active.overrides}, overridden by ${active.sourcePath}`
+        : `file ${active.sourcePath}`
+    case 'dynamic':
+      return active.condition ? `dynamic, ${active.condition}` : 'dynamic'
+    default:
+      return active.source
+  }
+}
+
+function formatResponse(response: PatternConfig['response']): string {
+  if (response === null || response === undefined) {
+    return 'none, left for the user'
+  }
+  return JSON.stringify(response)
+}
+
+/**
+ * Describe a pattern. Function responses are only called when `resolve` is
+ * set, since they depend on the session's configuration and directory.
+ */
+export function formatPattern(
+  active: ActivePattern,
+  resolve: boolean = false,
+): string {
+  const { pattern } = active
+  const lines = [`${pattern.id} (${formatSource(active)})`]
+  lines.push(`  Title: ${pattern.title}`)
+  if (pattern.triggerText) {
+    lines.push(`  Trigger: ${pattern.triggerText}`)
+  }
+  lines.push('  Sequence:')
+  for (const line of pattern.pattern ?? []) {
+    lines.push(`    ${line}`)
+  }
+
+  if (typeof pattern.response !== 'function') {
+    lines.push(`  Response: ${formatResponse(pattern.response)}`)
+  } else if (resolve) {
+    let resolved: string
+    try {
+      resolved = formatResponse(pattern.response())
+    } catch (error) {
+      resolved = `failed, ${error instanceof Error ? error.message : error}`
+    }
+    lines.push(`  Response: computed when matched, currently ${resolved}`)
+  } else {
+    lines.push('  Response: computed when matched')
+  }
+
+  if (pattern.settle) {
+    lines.push(
+      `  Settle: ${Object.entries(pattern.settle)
+        .map(([key, value]) => `${key} ${value}`)
+        .join(', ')}`,
+    )
+  }
+  if (pattern.notification) {
+    lines.push('  Notification:')
+    for (const line of pattern.notification.trimEnd().split('\n')) {
+      lines.push(`    ${line}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+async function handleList(args: string[]): Promise<void> {
+  if (args.length > 0) {
+    fail(`Unexpected argument: ${args[0]}`)
+  }
+
+  const active = await loadActivePatterns()
+  console.log(active.map(a => formatPattern(a)).join('\n\n'))
+}
+
+async function handleShow(args: string[]): Promise<void> {
+  if (args.length !== 1) {
+    fail('cc-patterns show needs a pattern id')
+  }
+
+  const active = await loadActivePatterns()
+  const found = active.find(a => a.pattern.id === args[0])
+  if (!found) {
+    fail(`No active pattern with id ${args[0]}, see cc-patterns list`)
+  }
+  console.log(formatPattern(found, true))
+}
+
+export async function handleCcPatterns(args: string[]): Promise<void> {
+  const [command, ...rest] = args
+
+  if (!command || command === '--help' || command === '-h') {
+    printUsage()
+    process.exit(command ? 0 : 1)
+  }
+  if (rest.includes('--help') || rest.includes('-h')) {
+    printUsage()
+    process.exit(0)
+  }
+
+  switch (command) {
+    case 'list':
+      await handleList(rest)
+      break
+    case 'show':
+      await handleShow(rest)
+      break
+    case 'test':
+      await handleTest(rest)
+      break
+    default:
+      fail(`Unknown cc-patterns command: ${command}`)
+  }
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs'
+import type { AppConfig, PromptAction } from '../config/schemas.js'
+import { loadConfigFile } from '../config/loader.js'
+import { applyRuleset, mergeRulesets } from '../config/rulesets.js'
+import { createTrustPromptPattern } from '../patterns/registry.js'
+import { loadConfiguredPatterns } from '../patterns/active.js'
+import { parseRecording } from '../terminal/recorder.js'
+import { replayRecording, type ReplayedMatch } from '../terminal/replay.js'
+
+export interface CcReplayOptions {
+  recording?: string
+  configPath?: string
+  rulesets: string[]
+  yolo?: boolean
+  json?: boolean
+}
+
+const ACTION_LABELS: Record<PromptAction, string> = {
+  accept: '👍 Accepted',
+  prompt: '✋ Prompted',
+  reject: '👎 Rejected',
+}
+
+function printUsage(): void {
+  console.log('Usage: claude-composer cc-replay <recording> [options]')
+  console.log(
+    '\nReplay a session recorded with --record through the pattern matcher, and show which prompts would be matched and how they would be answered under the current configuration. Claude Code is not run.',
+  )
+  console.log('\nOptions:')
+  console.log('  --config <path>     Configuration file to use')
+  console.log(
+    '  --ruleset <name>    Ruleset to apply instead of the configured ones (repeatable)',
+  )
+  console.log('  --yolo              Replay as if running in yolo mode')
+  console.log('  --json              Print the matches as JSON')
+  console.log('  -h, --help          Show this help message')
+}
+
+function fail(message: string): never {
+  console.error(`Error: ${message}`)
+  process.exit(1)
+}
+
+export function formatReplayedMatch(replayed: ReplayedMatch): string {
+  const { match } = replayed
+  const lines = [
+    `${replayed.time.toFixed(1).padStart(7)}s  ${ACTION_LABELS[replayed.action]}  ${match.patternTitle} (${match.patternId})`,
+  ]
+  for (const [key, value] of Object.entries(match.extractedData ?? {})) {
+    lines.push(`            ${key}: ${value}`)
+  }
+  return lines.join('\n')
+}
+
+export function summarizeReplay(matches: ReplayedMatch[]): string {
+  const count = (action: PromptAction) =>
+    matches.filter(m => m.action === action).length
+  return `${matches.length} prompt${matches.length === 1 ? '' : 's'} matched: ${count('accept')} accepted, ${count('prompt')} prompted, ${count('reject')} rejected`
+}
+
+async function loadReplayConfig(options: CcReplayOptions): Promise<AppConfig> {
+  let appConfig: AppConfig = await loadConfigFile(options.configPath)
+
+  const rulesets =
+    options.rulesets.length > 0 ? options.rulesets : appConfig.rulesets || []
+  if (rulesets.length > 0) {
+    appConfig = applyRuleset(appConfig, await mergeRulesets(rulesets))
+  }
+  if (options.yolo) {
+    appConfig.yolo = true
+  }
+  return appConfig
+}
+
+export async function handleCcReplay(args: string[]): Promise<void> {
+  const options: CcReplayOptions = { rulesets: [] }
+
+  if (args.includes('--help') || args.includes('-h')) {
+    printUsage()
+    process.exit(0)
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    switch (arg) {
+      case '--config':
+        options.configPath = args[++i]
+        if (!options.configPath) {
+          fail('--config needs a path')
+        }
+        break
+      case '--ruleset':
+        if (!args[i + 1]) {
+          fail('--ruleset needs a name')
+        }
+        options.rulesets.push(args[++i])
+        break
+      case '--yolo':
+        options.yolo = true
+        break
+      case '--json':
+        options.json = true
+        break
+      default:
+        if (arg.startsWith('-')) {
+          console.error(`Unknown option: ${arg}`)
+          process.exit(1)
+        }
+        if (options.recording !== undefined) {
+          fail(`Unexpected argument: ${arg}`)
+        }
+        options.recording = arg
+    }
+  }
+
+  if (!options.recording) {
+    printUsage()
+    process.exit(1)
+  }
+  if (!fs.existsSync(options.recording)) {
+    fail(`Recording not found: ${options.recording}`)
+  }
+
+  let matches: ReplayedMatch[]
+  try {
+    const recording = parseRecording(fs.readFileSync(options.recording, 'utf8'))
+    const appConfig = await loadReplayConfig(options)
+
+    const configuredPatterns = await loadConfiguredPatterns(
+      appConfig.allow_project_patterns,
+    )
+
+    matches = await replayRecording(recording, {
+      patterns: [
+        ...configuredPatterns.map(active => active.pattern),
+        createTrustPromptPattern(() => appConfig),
+      ],
+      appConfig,
+      yolo: appConfig.yolo,
+    })
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error))
+  }
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        matches.map(({ time, match, action }) => ({
+          time,
+          patternId: match.patternId,
+          patternTitle: match.patternTitle,
+          action,
+          extractedData: match.extractedData,
+        })),
+        null,
+        2,
+      ),
+    )
+    return
+  }
+
+  for (const replayed of matches) {
+    console.log(formatReplayedMatch(replayed))
+  }
+  console.log(summarizeReplay(matches))
+}
@@ -6,19 +6,36 @@ export function createClaudeComposerCommand(): Command {
   program
     .name('claude-composer')
     .description(
-      'A wrapper that enhances the Claude Code CLI\n\nSubcommands:\n  cc-init                  Initialize a new configuration file',
+      'A wrapper that enhances the Claude Code CLI\n\nSubcommands:\n  cc-init                  Initialize a new configuration file\n  cc-approve               Answer a prompt waiting in a running session\n  cc-replay                Replay a recorded session through the patterns\n  cc-patterns              List, show and test the active patterns',
     )
     .option(
       '--toolset <name...>',
       'Use predefined toolsets from ~/.claude-composer/toolsets/ directory or specify an absolute path (can be specified multiple times)',
     )
+    .option(
+      '--ruleset <name...>',
+      'Use acceptance rulesets from ~/.claude-composer/rulesets/ directory or specify an absolute path (can be specified multiple times)',
+    )
     .option('--yolo', 'Accept all prompts automatically (use with caution)')
     .option(
       '--ignore-global-config',
       'Ignore configuration from ~/.claude-composer/config.yaml',
     )
     .option('--quiet', 'Suppress preflight messages')
-    .option('--mode <mode>', 'Start mode (act or plan)')
+    .option('--mode <mode>', 'Start mode (act, plan or auto-accept)')
+    .option(
+      '--prompts-file <path>',
+      'Submit the prompts listed in a YAML or markdown file one after another',
+    )
+    .option(
+      '--then <prompt>',
+      'Submit another prompt once Claude finishes the previous one (can be specified multiple times)',
+      (prompt: string, previous: string[] = []) => [...previous, prompt],
+    )
+    .option(
+      '--record [path]',
+      'Record the session as an asciicast v2 file (default: ~/.claude-composer/logs/session-<time>.cast)',
+    )
     .option(
       '--allow-buffer-snapshots',
       'Enable Ctrl+Shift+S to save terminal buffer snapshots to ~/.claude-composer/logs/',
@@ -0,0 +1,68 @@
+import * as fs from 'fs'
+import * as tty from 'tty'
+import stripAnsi from 'strip-ansi'
+
+// Longer piped input is saved to a file that the prompt points Claude to,
+// rather than typed into the input box
+export const PIPED_INPUT_INLINE_LIMIT = 4096
+
+/**
+ * Read everything piped to the process
+ */
+export async function readPipedInput(
+  stream: NodeJS.ReadableStream = process.stdin,
+): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+/**
+ * Make piped input safe to type into the input box, where a carriage return
+ * submits the prompt and control characters act as keys such as Ctrl+C.
+ * Escape sequences, e.g. from coloured logs, are removed and line endings
+ * become newlines.
+ */
+function toPromptText(input: string): string {
+  return stripAnsi(input)
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\x00-\x08\x0b-\x1f\x7f-\x9f]/g, '')
+}
+
+/**
+ * Add piped input to the prompt, inline when it is short and otherwise as a
+ * reference to the file `saveToFile` writes it to
+ */
+export function combinePipedInput(
+  prompt: string | undefined,
+  input: string,
+  saveToFile: (content: string) => string,
+): string {
+  const content = toPromptText(input).replace(/\s+$/, '')
+
+  if (content.length <= PIPED_INPUT_INLINE_LIMIT) {
+    return prompt ? `${prompt}\n\n${content}` : content
+  }
+
+  const filePath = saveToFile(content)
+  const lineCount = content.split('\n').length
+  const reference = `The piped input (${lineCount} lines) is saved in ${filePath}`
+  return prompt
+    ? `${prompt}\n\n${reference}`
+    : `Read the piped input in ${filePath}`
+}
+
+/**
+ * Open the controlling terminal for keyboard input, for when stdin is a
+ * pipe. Throws when the process has no terminal.
+ */
+export function openTerminalInput(): tty.ReadStream {
+  const fd = fs.openSync('/dev/tty', 'r')
+  if (!tty.isatty(fd)) {
+    fs.closeSync(fd)
+    throw new Error('/dev/tty is not a terminal')
+  }
+  return new tty.ReadStream(fd)
+}
@@ -72,6 +72,21 @@ export class ToolsetConfigError extends ConfigError {
   }
 }
 
+/**
+ * Error thrown when ruleset configuration is invalid
+ */
+export class RulesetConfigError extends ConfigError {
+  constructor(
+    public readonly rulesetName: string,
+    public readonly error: string,
+  ) {
+    super(
+      `Invalid ruleset configuration for "${rulesetName}": ${error}`,
+      'RULESET_CONFIG_ERROR',
+    )
+  }
+}
+
 /**
  * Format Zod errors for display
  */
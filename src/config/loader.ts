@@ -7,8 +7,13 @@ import { fileURLToPath } from 'node:url'
 import {
   validateAppConfig,
   validateToolsetConfig,
+  validateRulesetConfig,
+  validatePatternFile,
+  validatePromptsFile,
   type AppConfig,
   type ToolsetConfig,
+  type RulesetConfig,
+  type PatternFileEntry,
 } from './schemas.js'
 import { CONFIG_PATHS } from './paths'
 import { expandPath } from '../utils/file-utils.js'
@@ -96,58 +101,76 @@ export async function loadConfigFile(
   }
 }
 
-export async function loadToolsetFile(
-  toolsetName: string,
-): Promise<ToolsetConfig> {
-  let toolsetPath: string
-
+/**
+ * Resolve a toolset or ruleset name to a file path.
+ * Names can be paths, or use the internal: and project: prefixes.
+ */
+function resolveNamedConfigPath(
+  name: string,
+  kind: 'toolsets' | 'rulesets',
+  globalDirectory: string,
+): string {
   // Check if this is an absolute or relative path
   // Also check for environment variables
   if (
-    toolsetName.startsWith('~') ||
-    toolsetName.startsWith('/') ||
-    toolsetName.startsWith('.') ||
-    toolsetName.includes('$')
+    name.startsWith('~') ||
+    name.startsWith('/') ||
+    name.startsWith('.') ||
+    name.includes('$')
   ) {
     // Treat as a path - expand and resolve it
-    const expandedPath = expandPath(toolsetName)
-    toolsetPath = resolveYamlPath(expandedPath)
-  } else if (toolsetName.startsWith('internal:')) {
-    // Check if this is an internal toolset
-    const internalName = toolsetName.substring('internal:'.length)
-    // Look for internal toolsets in the dist/internal-toolsets directory
+    const expandedPath = expandPath(name)
+    return resolveYamlPath(expandedPath)
+  }
+
+  if (name.startsWith('internal:')) {
+    // Check if this is an internal toolset or ruleset
+    const internalName = name.substring('internal:'.length)
+    // Look for internal files in the dist/internal-<kind> directory
     const __filename = fileURLToPath(import.meta.url)
     const __dirname = path.dirname(__filename)
-    toolsetPath = path.join(
+    const internalPath = path.join(
       __dirname,
-      'internal-toolsets',
+      `internal-${kind}`,
       `${internalName}.yaml`,
     )
 
     // In development/test, check src directory if dist doesn't exist
-    if (!fs.existsSync(toolsetPath)) {
+    if (!fs.existsSync(internalPath)) {
       // Try replacing dist with src in the path
-      const srcPath = toolsetPath.replace('/dist/', '/src/')
+      const srcPath = internalPath.replace('/dist/', '/src/')
       if (fs.existsSync(srcPath)) {
-        toolsetPath = srcPath
+        return srcPath
       }
     }
-  } else if (toolsetName.startsWith('project:')) {
-    // Project-level toolset
-    const projectName = toolsetName.substring('project:'.length)
+    return internalPath
+  }
+
+  if (name.startsWith('project:')) {
+    // Project-level toolset or ruleset
+    const projectName = name.substring('project:'.length)
     const basePath = path.join(
       process.cwd(),
       '.claude-composer',
-      'toolsets',
+      kind,
       projectName,
     )
-    toolsetPath = resolveYamlPath(basePath)
-  } else {
-    // Regular user toolset
-    const basePath = path.join(CONFIG_PATHS.getToolsetsDirectory(), toolsetName)
-    toolsetPath = resolveYamlPath(basePath)
+    return resolveYamlPath(basePath)
   }
 
+  // Regular user toolset or ruleset
+  return resolveYamlPath(path.join(globalDirectory, name))
+}
+
+export async function loadToolsetFile(
+  toolsetName: string,
+): Promise<ToolsetConfig> {
+  const toolsetPath = resolveNamedConfigPath(
+    toolsetName,
+    'toolsets',
+    CONFIG_PATHS.getToolsetsDirectory(),
+  )
+
   if (!fs.existsSync(toolsetPath)) {
     throw new Error(`Toolset file not found: ${toolsetPath}`)
   }
@@ -172,6 +195,207 @@ export async function loadToolsetFile(
   }
 }
 
+export async function loadRulesetFile(
+  rulesetName: string,
+): Promise<RulesetConfig> {
+  const rulesetPath = resolveNamedConfigPath(
+    rulesetName,
+    'rulesets',
+    CONFIG_PATHS.getRulesetsDirectory(),
+  )
+
+  if (!fs.existsSync(rulesetPath)) {
+    throw new Error(`Ruleset file not found: ${rulesetPath}`)
+  }
+
+  try {
+    const rulesetData = fs.readFileSync(rulesetPath, 'utf8')
+    const parsed = yaml.load(rulesetData)
+    // Handle empty YAML files which parse to undefined or null
+    const data = parsed === null || parsed === undefined ? {} : parsed
+    const result = validateRulesetConfig(data)
+    handleValidationError(result, rulesetPath, 'ruleset configuration')
+
+    return result.data
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === 'ruleset configuration validation failed'
+    ) {
+      throw error
+    }
+    throw new Error(`Error loading ruleset file: ${error}`)
+  }
+}
+
+const PATTERN_FILE_EXTENSIONS = ['.yaml', '.yml', '.json']
+
+/**
+ * List the pattern files in a directory, sorted by name so that load order
+ * is predictable
+ */
+export function getPatternFilePaths(directory: string): string[] {
+  if (!fs.existsSync(directory)) {
+    return []
+  }
+
+  return fs
+    .readdirSync(directory)
+    .filter(file => PATTERN_FILE_EXTENSIONS.includes(path.extname(file)))
+    .sort()
+    .map(file => path.join(directory, file))
+}
+
+export async function loadPatternFile(
+  patternFilePath: string,
+): Promise<PatternFileEntry[]> {
+  try {
+    const patternData = fs.readFileSync(patternFilePath, 'utf8')
+    const parsed =
+      path.extname(patternFilePath) === '.json'
+        ? JSON.parse(patternData)
+        : yaml.load(patternData)
+    // Handle empty YAML files which parse to undefined or null
+    if (parsed === null || parsed === undefined) {
+      return []
+    }
+    const result = validatePatternFile(parsed)
+    handleValidationError(result, patternFilePath, 'pattern configuration')
+
+    return result.data.patterns
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === 'pattern configuration validation failed'
+    ) {
+      throw error
+    }
+    throw new Error(`Error loading pattern file: ${error}`)
+  }
+}
+
+export interface UserPatternFile {
+  filePath: string
+  patterns: PatternFileEntry[]
+}
+
+/**
+ * Load pattern files from the global patterns directory, and the project's
+ * when `allowProjectPatterns` is set, since a cloned repository shouldn't
+ * be able to change how prompts are answered. Project files come last so
+ * they take precedence. Files that fail to load are skipped.
+ */
+export async function loadUserPatternFiles(
+  allowProjectPatterns: boolean = false,
+): Promise<UserPatternFile[]> {
+  const directories = [CONFIG_PATHS.getPatternsDirectory()]
+  const projectDirectory = CONFIG_PATHS.getProjectPatternsDirectory()
+  if (allowProjectPatterns) {
+    directories.push(projectDirectory)
+  } else if (getPatternFilePaths(projectDirectory).length > 0) {
+    console.warn(
+      `Skipping project pattern files in ${projectDirectory}, set allow_project_patterns in the global config to load them`,
+    )
+  }
+  const patternFiles: UserPatternFile[] = []
+
+  for (const directory of directories) {
+    for (const patternFilePath of getPatternFilePaths(directory)) {
+      try {
+        patternFiles.push({
+          filePath: patternFilePath,
+          patterns: await loadPatternFile(patternFilePath),
+        })
+      } catch (error) {
+        console.warn(
+          `Skipping pattern file ${patternFilePath}: ${error instanceof Error ? error.message : error}`,
+        )
+      }
+    }
+  }
+
+  return patternFiles
+}
+
+export async function loadUserPatterns(
+  allowProjectPatterns: boolean = false,
+): Promise<PatternFileEntry[]> {
+  const patternFiles = await loadUserPatternFiles(allowProjectPatterns)
+  return patternFiles.flatMap(file => file.patterns)
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown']
+
+// List items start with -, * or a number, continuation lines are indented
+const MARKDOWN_ITEM_REGEX = /^(?:[-*+]|\d+[.)])\s+(.*)$/
+
+/**
+ * Read the top-level list items of a markdown file. Indented lines continue
+ * the item above them, anything else outside a list is ignored.
+ */
+export function parseMarkdownPromptList(markdown: string): string[] {
+  const prompts: string[][] = []
+  let current: string[] | null = null
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const itemMatch = line.match(MARKDOWN_ITEM_REGEX)
+    if (itemMatch) {
+      current = [itemMatch[1]]
+      prompts.push(current)
+    } else if (current && /^\s+\S/.test(line)) {
+      current.push(line.trim())
+    } else if (current && line.trim() === '') {
+      // A blank line inside an item keeps the paragraphs apart
+      current.push('')
+    } else {
+      current = null
+    }
+  }
+
+  return prompts
+    .map(lines => lines.join('\n').trim())
+    .filter(prompt => prompt.length > 0)
+}
+
+/**
+ * Load the prompts to submit one after another, from a YAML list or the list
+ * items of a markdown file
+ */
+export async function loadPromptsFile(
+  promptsFilePath: string,
+): Promise<string[]> {
+  const resolvedPath = path.resolve(expandPath(promptsFilePath))
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Prompts file not found: ${resolvedPath}`)
+  }
+
+  try {
+    const promptsData = fs.readFileSync(resolvedPath, 'utf8')
+    if (MARKDOWN_EXTENSIONS.includes(path.extname(resolvedPath))) {
+      return parseMarkdownPromptList(promptsData)
+    }
+
+    const parsed = yaml.load(promptsData)
+    // Handle empty YAML files which parse to undefined or null
+    if (parsed === null || parsed === undefined) {
+      return []
+    }
+    const result = validatePromptsFile(parsed)
+    handleValidationError(result, resolvedPath, 'prompts file')
+
+    return Array.isArray(result.data) ? result.data : result.data.prompts
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === 'prompts file validation failed'
+    ) {
+      throw error
+    }
+    throw new Error(`Error loading prompts file: ${error}`)
+  }
+}
+
 export function createTempMcpConfig(mcp: Record<string, unknown>): string {
   const tempFileName = `claude-composer-mcp-${Date.now()}-${Math.random().toString(36).substring(2, 9)}.json`
   const tempFilePath = path.join(os.tmpdir(), tempFileName)
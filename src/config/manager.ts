@@ -20,6 +20,7 @@ import {
   ConfigFileNotFoundError,
   ConfigValidationError,
   ToolsetConfigError,
+  RulesetConfigError,
 } from './errors'
 import {
   validatePattern,
@@ -30,6 +31,7 @@ import {
   type McpConfig,
 } from './validators'
 import { parseEnvironment, type EnvironmentConfig } from './environment'
+import { loadRulesetFile } from './loader'
 
 /**
  * Configuration state managed by the ConfigurationManager
@@ -97,8 +99,13 @@ export class ConfigManager {
    * Load application configuration
    */
   async loadConfig(options: LoadConfigOptions = {}): Promise<void> {
-    const { configPath, ignoreGlobalConfig, toolsetNames, cliOverrides } =
-      options
+    const {
+      configPath,
+      ignoreGlobalConfig,
+      toolsetNames,
+      rulesetNames,
+      cliOverrides,
+    } = options
 
     // Start with defaults
     let config = this.getDefaultAppConfig()
@@ -153,6 +160,12 @@ export class ConfigManager {
     if (toolsetsToLoad && toolsetsToLoad.length > 0) {
       await this.loadToolsets(toolsetsToLoad)
     }
+
+    // Load rulesets if specified
+    const rulesetsToLoad = rulesetNames || config.rulesets
+    if (rulesetsToLoad && rulesetsToLoad.length > 0) {
+      await this.loadRulesets(rulesetsToLoad)
+    }
   }
 
   /**
@@ -244,6 +257,30 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Load ruleset configurations
+   */
+  async loadRulesets(rulesetNames: string[]): Promise<void> {
+    for (const name of rulesetNames) {
+      await this.loadRuleset(name)
+    }
+  }
+
+  /**
+   * Load a single ruleset
+   */
+  private async loadRuleset(name: string): Promise<void> {
+    try {
+      const ruleset = await loadRulesetFile(name)
+      this.state.rulesets.set(name, ruleset)
+    } catch (error) {
+      throw new RulesetConfigError(
+        name,
+        error instanceof Error ? error.message : String(error),
+      )
+    }
+  }
+
   /**
    * Register patterns for use in the application
    */
@@ -284,6 +321,13 @@ export class ConfigManager {
     return Array.from(this.state.patterns.values())
   }
 
+  /**
+   * Get a loaded ruleset by name
+   */
+  getRuleset(name: string): RulesetConfig | undefined {
+    return this.state.rulesets.get(name)
+  }
+
   /**
    * Get environment configuration
    */
@@ -33,6 +33,13 @@ export const CONFIG_PATHS = {
     return path.join(CONFIG_PATHS.getConfigDirectory(), 'backups')
   },
 
+  /**
+   * Get the directory holding the control sockets of running sessions
+   */
+  getSessionsDirectory: (): string => {
+    return path.join(CONFIG_PATHS.getConfigDirectory(), 'sessions')
+  },
+
   /**
    * Get the toolsets directory path
    */
@@ -54,6 +61,14 @@ export const CONFIG_PATHS = {
     return path.join(CONFIG_PATHS.getConfigDirectory(), 'patterns')
   },
 
+  /**
+   * Get the project patterns directory path
+   * Located at .claude-composer/patterns in the current working directory
+   */
+  getProjectPatternsDirectory: (): string => {
+    return path.join(process.cwd(), '.claude-composer', 'patterns')
+  },
+
   /**
    * Get the config file path
    */
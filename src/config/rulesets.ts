@@ -0,0 +1,86 @@
+import type { AppConfig, RulesetConfig } from './schemas.js'
+import { loadRulesetFile } from './loader.js'
+import { log } from '../utils/logging.js'
+
+const RULESET_LIST_KEYS = [
+  'allowed_file_paths',
+  'denied_file_paths',
+  'allowed_domains',
+  'denied_domains',
+  'allowed_commands',
+  'denied_commands',
+] as const
+
+function mergeLists(
+  first: string[] | undefined,
+  second: string[] | undefined,
+): string[] | undefined {
+  if (!first && !second) {
+    return undefined
+  }
+  return [...new Set([...(first || []), ...(second || [])])]
+}
+
+/**
+ * Combine two rulesets where `override` takes precedence over `base`.
+ * Rules from `override` are evaluated first, allow and deny lists are unioned.
+ */
+export function combineRulesets(
+  base: RulesetConfig,
+  override: RulesetConfig,
+): RulesetConfig {
+  const combined: RulesetConfig = {}
+
+  if (base.rules || override.rules) {
+    combined.rules = [...(override.rules || []), ...(base.rules || [])]
+  }
+
+  for (const key of RULESET_LIST_KEYS) {
+    const merged = mergeLists(base[key], override[key])
+    if (merged) {
+      combined[key] = merged
+    }
+  }
+
+  return combined
+}
+
+export async function mergeRulesets(
+  rulesetsToLoad: string[],
+): Promise<RulesetConfig> {
+  let mergedConfig: RulesetConfig = {}
+
+  // Later rulesets take precedence over earlier ones
+  for (const rulesetName of rulesetsToLoad) {
+    const rulesetConfig = await loadRulesetFile(rulesetName)
+    mergedConfig = combineRulesets(mergedConfig, rulesetConfig)
+
+    log(`※ Loaded ruleset: ${rulesetName}`)
+
+    if (rulesetConfig.rules && rulesetConfig.rules.length > 0) {
+      log(
+        `※ Ruleset ${rulesetName} defined ${rulesetConfig.rules.length} rule${rulesetConfig.rules.length === 1 ? '' : 's'}`,
+      )
+    }
+  }
+
+  return mergedConfig
+}
+
+/**
+ * Apply a merged ruleset to the app config. Rules and lists written directly
+ * in the config take precedence over those from rulesets.
+ */
+export function applyRuleset(
+  appConfig: AppConfig,
+  ruleset: RulesetConfig,
+): AppConfig {
+  const configRuleset: RulesetConfig = {
+    rules: appConfig.rules,
+  }
+  for (const key of RULESET_LIST_KEYS) {
+    configRuleset[key] = appConfig[key]
+  }
+
+  return { ...appConfig, ...combineRulesets(ruleset, configRuleset) }
+}
@@ -1,10 +1,100 @@
 import { z } from 'zod'
+import { parseKey } from '../core/keys.js'
+
+// Acceptance rule schemas
+export const promptActionSchema = z.enum(['accept', 'prompt', 'reject'])
+
+export type PromptAction = z.infer<typeof promptActionSchema>
+
+const regexStringSchema = z.string().refine(
+  value => {
+    try {
+      new RegExp(value)
+      return true
+    } catch {
+      return false
+    }
+  },
+  { message: 'Invalid regular expression' },
+)
+
+export const ruleConditionSchema = z.union([
+  z.string(),
+  z
+    .object({
+      equals: z.string().optional(),
+      contains: z.string().optional(),
+      starts_with: z.string().optional(),
+      ends_with: z.string().optional(),
+      matches: regexStringSchema.optional(),
+    })
+    .strict(),
+])
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>
+
+export const acceptanceRuleSchema = z
+  .object({
+    pattern: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    action: promptActionSchema,
+    when: z.record(z.string(), ruleConditionSchema).optional(),
+  })
+  .strict()
+
+export type AcceptanceRule = z.infer<typeof acceptanceRuleSchema>
+
+// Permission modes cycled with Shift+Tab in Claude Code
+export const modeSchema = z.enum(['plan', 'act', 'auto-accept'])
+
+export type Mode = z.infer<typeof modeSchema>
+
+// Where notifications are delivered. Backends without settings can be given
+// by name alone
+export const notificationBackendSchema = z.union([
+  z.enum(['node-notifier', 'osc', 'bell']),
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('node-notifier') }).strict(),
+    z
+      .object({
+        type: z.literal('osc'),
+        code: z.union([z.literal(9), z.literal(777)]).optional(),
+      })
+      .strict(),
+    z.object({ type: z.literal('bell') }).strict(),
+    z.object({ type: z.literal('file'), path: z.string().min(1) }).strict(),
+    z
+      .object({
+        type: z.literal('command'),
+        command: z.string().min(1),
+        timeout: z.number().int().positive().optional(),
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal('webhook'),
+        url: z.string().url(),
+        headers: z.record(z.string(), z.string()).optional(),
+        timeout: z.number().int().positive().optional(),
+      })
+      .strict(),
+  ]),
+])
+
+export type NotificationBackendConfig = z.infer<
+  typeof notificationBackendSchema
+>
 
 export const appConfigSchema = z
   .object({
     // Master notification controls
     show_notifications: z.boolean().optional(),
     sticky_notifications: z.boolean().optional(),
+    notifications: z
+      .object({
+        backends: z.array(notificationBackendSchema).optional(),
+      })
+      .strict()
+      .optional(),
 
     // Safety settings
     dangerously_allow_in_dirty_directory: z.boolean().optional(),
@@ -14,13 +104,52 @@ export const appConfigSchema = z
 
     // Other settings
     toolsets: z.array(z.string()).optional(),
+    rulesets: z.array(z.string()).optional(),
     yolo: z.boolean().optional(),
     log_all_pattern_matches: z.boolean().optional(),
+    // Load pattern files from the project's .claude-composer/patterns too
+    allow_project_patterns: z.boolean().optional(),
     allow_buffer_snapshots: z.boolean().optional(),
-    mode: z.enum(['plan', 'act']).optional(),
+    mode: modeSchema.optional(),
 
     // Trust roots - directories where trust prompts are auto-accepted
     roots: z.array(z.string()).optional(),
+
+    // Acceptance rules - evaluated in order, first matching rule wins
+    rules: z.array(acceptanceRuleSchema).optional(),
+
+    // Project-relative globs for edit and create file prompts
+    allowed_file_paths: z.array(z.string()).optional(),
+    denied_file_paths: z.array(z.string()).optional(),
+
+    // Domains (optionally with a URL path prefix) for fetch content prompts
+    allowed_domains: z.array(z.string()).optional(),
+    denied_domains: z.array(z.string()).optional(),
+
+    // Command rules for bash command prompts
+    allowed_commands: z.array(z.string()).optional(),
+    denied_commands: z.array(z.string()).optional(),
+
+    // Checking that automatic responses dismissed their prompt
+    verify_responses: z.boolean().optional(),
+    response_verification_timeout: z.number().int().positive().optional(),
+    response_retry_strategies: z
+      .array(z.enum(['resend', 'enter', 'arrow-select']))
+      .optional(),
+
+    // Notification when Claude finishes a turn and waits at the input box
+    show_turn_finished_notify: z.boolean().optional(),
+    sticky_turn_finished_notify: z.boolean().optional(),
+    turn_finished_notify_delay: z.number().int().nonnegative().optional(),
+    turn_finished_notify_min_duration: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional(),
+
+    // Unix socket for answering prompts from other terminals and scripts.
+    // Off unless enabled, since any process of the user could connect.
+    control_socket: z.boolean().optional(),
   })
   .strict()
 
@@ -36,6 +165,20 @@ export const toolsetConfigSchema = z
 
 export type ToolsetConfig = z.infer<typeof toolsetConfigSchema>
 
+export const rulesetConfigSchema = appConfigSchema
+  .pick({
+    rules: true,
+    allowed_file_paths: true,
+    denied_file_paths: true,
+    allowed_domains: true,
+    denied_domains: true,
+    allowed_commands: true,
+    denied_commands: true,
+  })
+  .strict()
+
+export type RulesetConfig = z.infer<typeof rulesetConfigSchema>
+
 export function parseAppConfig(data: unknown): AppConfig {
   return appConfigSchema.parse(data)
 }
@@ -56,20 +199,82 @@ export function validateToolsetConfig(
   return toolsetConfigSchema.safeParse(data)
 }
 
+export function parseRulesetConfig(data: unknown): RulesetConfig {
+  return rulesetConfigSchema.parse(data)
+}
+
+export function validateRulesetConfig(
+  data: unknown,
+): z.SafeParseReturnType<unknown, RulesetConfig> {
+  return rulesetConfigSchema.safeParse(data)
+}
+
 // Pattern configuration schema
+// Text to look for on screen, or a regular expression written as /.../
+const screenTextSchema = z
+  .string()
+  .min(1)
+  .refine(
+    value => {
+      if (value.length < 2 || !value.startsWith('/') || !value.endsWith('/')) {
+        return true
+      }
+      try {
+        new RegExp(value.slice(1, -1))
+        return true
+      } catch {
+        return false
+      }
+    },
+    { message: 'Invalid regular expression' },
+  )
+
+// Pattern response steps. Plain strings are written as is and numbers pause
+// for that many milliseconds.
+export const responseStepSchema = z.union([
+  z.string(),
+  z.number(),
+  z
+    .object({
+      key: z.string().refine(key => parseKey(key) !== undefined, {
+        message: 'Unknown key name',
+      }),
+    })
+    .strict(),
+  z.object({ text: z.string() }).strict(),
+  z.object({ wait: z.number().int().nonnegative() }).strict(),
+  z.object({ mode: modeSchema }).strict(),
+  z
+    .object({
+      waitFor: screenTextSchema,
+      timeout: z.number().int().positive().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      waitForGone: screenTextSchema,
+      timeout: z.number().int().positive().optional(),
+    })
+    .strict(),
+])
+
+export type ResponseStep = z.infer<typeof responseStepSchema>
+
+export type PatternResponse = string | ResponseStep[] | null | undefined
+
 export const patternConfigSchema = z.object({
   id: z.string().min(1, 'Pattern ID cannot be empty'),
   title: z.string().min(1, 'Pattern title cannot be empty'),
   pattern: z.array(z.string()).optional(),
   response: z.union([
     z.string(),
-    z.array(z.union([z.string(), z.number()])),
+    z.array(responseStepSchema),
     z
       .function()
       .returns(
         z.union([
           z.string(),
-          z.array(z.union([z.string(), z.number()])),
+          z.array(responseStepSchema),
           z.null(),
           z.undefined(),
         ]),
@@ -79,6 +284,13 @@ export const patternConfigSchema = z.object({
   ]),
   notification: z.string().optional(),
   triggerText: z.string().optional(),
+  settle: z
+    .object({
+      quietMs: z.number().int().nonnegative().optional(),
+      maxWaitMs: z.number().int().positive().optional(),
+    })
+    .strict()
+    .optional(),
   transformExtractedData: z
     .function()
     .args(z.record(z.string(), z.any()))
@@ -88,6 +300,59 @@ export const patternConfigSchema = z.object({
 
 export type PatternConfig = z.infer<typeof patternConfigSchema>
 
+// Patterns the session adds itself, whose responses are sent without
+// consulting the acceptance rules
+export const RESERVED_PATTERN_IDS = [
+  'app-ready-handler',
+  'allow-trusted-root',
+  'inject-positional-arg-on-app-ready',
+]
+
+// Entries in YAML or JSON pattern files can't carry functions. An entry that
+// reuses an existing pattern id only needs the fields it changes.
+export const patternFileEntrySchema = patternConfigSchema
+  .omit({ transformExtractedData: true })
+  .partial({ title: true })
+  .strict()
+  .refine(entry => !RESERVED_PATTERN_IDS.includes(entry.id), {
+    message: 'Pattern ID is reserved for patterns Claude Composer adds itself',
+    path: ['id'],
+  })
+
+export type PatternFileEntry = z.infer<typeof patternFileEntrySchema>
+
+export const patternFileSchema = z
+  .object({
+    patterns: z.array(patternFileEntrySchema),
+  })
+  .strict()
+
+export type PatternFile = z.infer<typeof patternFileSchema>
+
+export function validatePatternFile(
+  data: unknown,
+): z.SafeParseReturnType<unknown, PatternFile> {
+  return patternFileSchema.safeParse(data)
+}
+
+// A prompts file is a list of prompts, optionally under a `prompts` key
+export const promptsFileSchema = z.union([
+  z.array(z.string().min(1)),
+  z
+    .object({
+      prompts: z.array(z.string().min(1)),
+    })
+    .strict(),
+])
+
+export type PromptsFile = z.infer<typeof promptsFileSchema>
+
+export function validatePromptsFile(
+  data: unknown,
+): z.SafeParseReturnType<unknown, PromptsFile> {
+  return promptsFileSchema.safeParse(data)
+}
+
 export function parsePatternConfig(data: unknown): PatternConfig {
   return patternConfigSchema.parse(data)
 }
@@ -0,0 +1,40 @@
+// Bytes a terminal sends for named keys, as used in pattern responses
+const KEY_SEQUENCES: Record<string, string> = {
+  enter: '\r',
+  return: '\r',
+  tab: '\t',
+  'shift+tab': '\x1b[Z',
+  escape: '\x1b',
+  esc: '\x1b',
+  backspace: '\x7f',
+  delete: '\x1b[3~',
+  space: ' ',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  right: '\x1b[C',
+  left: '\x1b[D',
+  home: '\x1b[H',
+  end: '\x1b[F',
+  pageup: '\x1b[5~',
+  pagedown: '\x1b[6~',
+}
+
+/**
+ * Translate a key name such as `enter`, `shift+tab` or `ctrl+c` into the
+ * bytes to write to the terminal. Names are case insensitive. Returns
+ * undefined for unknown keys.
+ */
+export function parseKey(name: string): string | undefined {
+  const key = name.trim().toLowerCase()
+
+  if (key in KEY_SEQUENCES) {
+    return KEY_SEQUENCES[key]
+  }
+
+  const ctrlMatch = key.match(/^ctrl\+([a-z])$/)
+  if (ctrlMatch) {
+    return String.fromCharCode(ctrlMatch[1].charCodeAt(0) - 96)
+  }
+
+  return undefined
+}
@@ -0,0 +1,39 @@
+import type { Mode } from '../config/schemas'
+
+// Bypass permissions is part of the Shift+Tab cycle when Claude Code runs
+// with --dangerously-skip-permissions, but can't be requested
+export type DetectedMode = Mode | 'bypass-permissions'
+
+const MODE_INDICATORS: [string, DetectedMode][] = [
+  ['plan mode on', 'plan'],
+  ['accept edits on', 'auto-accept'],
+  ['bypass permissions on', 'bypass-permissions'],
+]
+
+const BOX_BOTTOM_REGEX = /^\s*╰/
+
+/**
+ * Read the current mode from the status line under the input box. Without
+ * a mode indicator Claude Code is in its default mode, which is act.
+ */
+export function readMode(screen: string): DetectedMode {
+  const lines = screen.split('\n')
+
+  // Only look below the input box so conversation text can't be mistaken
+  // for the indicator
+  let statusStart = 0
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (BOX_BOTTOM_REGEX.test(lines[i])) {
+      statusStart = i + 1
+      break
+    }
+  }
+  const statusLines = lines.slice(statusStart).join('\n').toLowerCase()
+
+  for (const [indicator, mode] of MODE_INDICATORS) {
+    if (statusLines.includes(indicator)) {
+      return mode
+    }
+  }
+  return 'act'
+}
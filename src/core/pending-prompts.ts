@@ -0,0 +1,66 @@
+import type { MatchResult } from '../patterns/matcher'
+
+export interface PendingPrompt {
+  id: string
+  patternId: string
+  patternTitle: string
+  extractedData?: Record<string, string>
+  // ISO timestamp of when the prompt was shown
+  promptedAt: string
+}
+
+interface PendingEntry {
+  prompt: PendingPrompt
+  match: MatchResult
+}
+
+/**
+ * Prompts that were left for the user to answer, so they can be answered
+ * from outside the terminal
+ */
+export class PendingPrompts {
+  private entries: PendingEntry[] = []
+  private nextId = 1
+
+  add(match: MatchResult): PendingPrompt {
+    const prompt: PendingPrompt = {
+      id: String(this.nextId++),
+      patternId: match.patternId,
+      patternTitle: match.patternTitle,
+      extractedData: match.extractedData,
+      promptedAt: new Date().toISOString(),
+    }
+    this.entries.push({ prompt, match })
+    return prompt
+  }
+
+  list(): PendingPrompt[] {
+    return this.entries.map(entry => entry.prompt)
+  }
+
+  /**
+   * Remove and return a prompt, or the oldest one without an id
+   */
+  take(id?: string): { prompt: PendingPrompt; match: MatchResult } | undefined {
+    const index =
+      id === undefined
+        ? 0
+        : this.entries.findIndex(entry => entry.prompt.id === id)
+    if (index < 0 || index >= this.entries.length) {
+      return undefined
+    }
+    return this.entries.splice(index, 1)[0]
+  }
+
+  /**
+   * Forget prompts that are no longer on screen, e.g. because they were
+   * answered in the terminal
+   */
+  prune(isOnScreen: (match: MatchResult) => boolean): void {
+    this.entries = this.entries.filter(entry => isOnScreen(entry.match))
+  }
+
+  clear(): void {
+    this.entries = []
+  }
+}
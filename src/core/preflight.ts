@@ -9,8 +9,10 @@ import {
   ensureConfigDirectory,
   loadConfigFile,
   createTempMcpConfig,
+  loadPromptsFile,
 } from '../config/loader.js'
 import { buildToolsetArgs, mergeToolsets } from '../config/toolsets.js'
+import { applyRuleset, mergeRulesets } from '../config/rulesets.js'
 import {
   checkGitInstalled,
   checkChildAppPath,
@@ -19,9 +21,12 @@ import {
   handleAutomaticAcceptanceWarning,
 } from '../safety/checker.js'
 import { CLAUDE_PATHS } from '../config/paths.js'
+import { modeSchema } from '../config/schemas.js'
 import { parseCommandLineArgs, buildKnownOptionsSet } from '../cli/parser.js'
 import { detectSubcommand } from '../cli/subcommand.js'
 import { log, warn, setQuietMode, clearScreen } from '../utils/logging.js'
+import { expandPath } from '../utils/file-utils.js'
+import { getDefaultRecordingPath } from '../terminal/recorder.js'
 
 export async function runPreflight(
   argv: string[],
@@ -163,7 +168,22 @@ export async function runPreflight(
   }
   // Handle mode: CLI flag takes precedence over config
   if (parsedOptions.mode !== undefined) {
-    appConfig.mode = parsedOptions.mode
+    const modeResult = modeSchema.safeParse(parsedOptions.mode)
+    if (!modeResult.success) {
+      console.error(
+        `\x1b[31m※ Error: Invalid mode "${parsedOptions.mode}". Use act, plan or auto-accept.\x1b[0m`,
+      )
+      return {
+        appConfig,
+        toolsetArgs: [],
+        childArgs: [],
+        shouldExit: true,
+        exitCode: 1,
+        knownOptions,
+        hasPrintOption,
+      }
+    }
+    appConfig.mode = modeResult.data
   }
   // If no CLI flag provided, config value is preserved from loadConfigFile above
 
@@ -202,6 +222,68 @@ export async function runPreflight(
     }
   }
 
+  let rulesetsToLoad: string[] = []
+  if (parsedOptions.ruleset && parsedOptions.ruleset.length > 0) {
+    rulesetsToLoad = parsedOptions.ruleset
+  } else if (appConfig.rulesets && appConfig.rulesets.length > 0) {
+    rulesetsToLoad = appConfig.rulesets
+  }
+
+  if (rulesetsToLoad.length > 0) {
+    try {
+      const mergedRuleset = await mergeRulesets(rulesetsToLoad)
+      appConfig = applyRuleset(appConfig, mergedRuleset)
+    } catch (error) {
+      console.error(
+        `\x1b[31m※ Error: ${error instanceof Error ? error.message : error}\x1b[0m`,
+      )
+      return {
+        appConfig,
+        toolsetArgs: [],
+        childArgs: [],
+        shouldExit: true,
+        exitCode: 1,
+        knownOptions,
+        hasPrintOption,
+      }
+    }
+  }
+
+  // Prompts from the file come before those given with --then
+  const queuedPrompts: string[] = []
+  if (parsedOptions.promptsFile) {
+    try {
+      queuedPrompts.push(...(await loadPromptsFile(parsedOptions.promptsFile)))
+      log(
+        `※ Loaded ${queuedPrompts.length} prompt${queuedPrompts.length === 1 ? '' : 's'} from ${parsedOptions.promptsFile}`,
+      )
+    } catch (error) {
+      console.error(
+        `\x1b[31m※ Error: ${error instanceof Error ? error.message : error}\x1b[0m`,
+      )
+      return {
+        appConfig,
+        toolsetArgs: [],
+        childArgs: [],
+        shouldExit: true,
+        exitCode: 1,
+        knownOptions,
+        hasPrintOption,
+      }
+    }
+  }
+  if (parsedOptions.then) {
+    queuedPrompts.push(...parsedOptions.then)
+  }
+
+  let recordingPath: string | undefined
+  if (parsedOptions.record) {
+    recordingPath =
+      typeof parsedOptions.record === 'string'
+        ? path.resolve(expandPath(parsedOptions.record))
+        : getDefaultRecordingPath()
+  }
+
   const hasToolsetFlag =
     parsedOptions.toolset && parsedOptions.toolset.length > 0
   const hasToolsetConfig = appConfig.toolsets && appConfig.toolsets.length > 0
@@ -237,6 +319,9 @@ export async function runPreflight(
   const childArgs: string[] = []
   for (let i = 2; i < argv.length; i++) {
     const arg = argv[i]
+    if (arg.startsWith('--record=')) {
+      continue
+    }
     if (!knownOptions.has(arg)) {
       childArgs.push(arg)
       // If this is an unknown option that expects a value, include the next argument too
@@ -250,8 +335,20 @@ export async function runPreflight(
       }
     } else if (arg === '--toolset' && i + 1 < argv.length) {
       i++
+    } else if (arg === '--ruleset' && i + 1 < argv.length) {
+      i++
     } else if (arg === '--mode' && i + 1 < argv.length) {
       i++
+    } else if (arg === '--prompts-file' && i + 1 < argv.length) {
+      i++
+    } else if (arg === '--then' && i + 1 < argv.length) {
+      i++
+    } else if (
+      arg === '--record' &&
+      typeof parsedOptions.record === 'string' &&
+      argv[i + 1] === parsedOptions.record
+    ) {
+      i++
     }
   }
 
@@ -387,6 +484,8 @@ export async function runPreflight(
     knownOptions,
     hasPrintOption,
     yolo: appConfig.yolo,
+    queuedPrompts,
+    recordingPath,
   }
 }
 
@@ -0,0 +1,44 @@
+import type { SessionStateEvent } from './session-state'
+
+/**
+ * Submit prompts one after another. After a prompt is submitted, the next
+ * one waits until Claude has worked on the turn and come back to the idle
+ * input box.
+ */
+export class PromptQueue {
+  private prompts: string[]
+  private submit: (prompt: string) => void
+  private started = false
+  private sawWorking = false
+
+  constructor(prompts: string[], submit: (prompt: string) => void) {
+    this.prompts = [...prompts]
+    this.submit = submit
+  }
+
+  /**
+   * Start waiting for the current turn to finish. Call once the first prompt
+   * has been submitted.
+   */
+  start(): void {
+    this.started = true
+    this.sawWorking = false
+  }
+
+  getRemainingCount(): number {
+    return this.prompts.length
+  }
+
+  handleStateChange(event: SessionStateEvent): void {
+    if (!this.started || this.prompts.length === 0) {
+      return
+    }
+
+    if (event.state === 'working') {
+      this.sawWorking = true
+    } else if (event.state === 'idle' && this.sawWorking) {
+      this.sawWorking = false
+      this.submit(this.prompts.shift()!)
+    }
+  }
+}
@@ -1,11 +1,120 @@
 import * as pty from '@homebridge/node-pty-prebuilt-multiarch'
 import { ChildProcess } from 'child_process'
+import type { Mode, PatternResponse, ResponseStep } from '../config/schemas'
+import { parseKey } from './keys'
+import { readMode, type DetectedMode } from './modes'
+
+export type RetryStrategy = 'resend' | 'enter' | 'arrow-select'
+
+// A retry sent after the prompt was dismissed answers whatever is on screen
+// by then, such as the next prompt or the input box, so retrying is opt-in.
+// Enter confirms whichever option is highlighted, so it is only ever tried
+// for answers that pick the first option.
+export const DEFAULT_RETRY_STRATEGIES: RetryStrategy[] = []
+
+export const DEFAULT_VERIFICATION_TIMEOUT = 1000
+
+// How long a waitFor or waitForGone step waits for the screen before the
+// rest of the response is abandoned
+export const DEFAULT_WAIT_FOR_TIMEOUT = 10000
+
+const POLL_INTERVAL = 50
+
+// How long to wait for the mode indicator to change after Shift+Tab
+const MODE_SWITCH_TIMEOUT = 3000
+// Enough presses to go once around the mode cycle
+const MAX_MODE_PRESSES = 4
+
+// Enough presses to reach the top of any prompt's option list
+const MAX_PROMPT_OPTIONS = 9
+
+export interface ResponseVerification {
+  // Whether the prompt the response answered has left the screen
+  isDismissed: () => boolean
+  // Resolves once the screen shows all the output received so far
+  flush?: () => Promise<void>
+  // Tried in order, each after the prompt outlived the timeout
+  strategies: RetryStrategy[]
+  timeout: number
+  // Called when the prompt is still there after every retry
+  onFailed: () => void
+}
+
+export type CompiledResponseStep =
+  | { type: 'write'; data: string }
+  | { type: 'wait'; ms: number }
+  | { type: 'mode'; mode: Mode }
+  | {
+      type: 'waitFor'
+      pattern: string | RegExp
+      gone: boolean
+      timeout: number
+    }
+
+// Text written as /.../ is a regular expression
+function parseScreenText(text: string): string | RegExp {
+  return text.length >= 2 && text.startsWith('/') && text.endsWith('/')
+    ? new RegExp(text.slice(1, -1))
+    : text
+}
+
+/**
+ * Compile a pattern response into the bytes to write and the pauses between
+ * them. Key names are expected to have been validated with the pattern.
+ */
+export function compileResponse(
+  response: string | ResponseStep[],
+): CompiledResponseStep[] {
+  const steps = Array.isArray(response) ? response : [response]
+  return steps.map((step): CompiledResponseStep => {
+    if (typeof step === 'string') {
+      return { type: 'write', data: step }
+    }
+    if (typeof step === 'number') {
+      return { type: 'wait', ms: step }
+    }
+    if ('key' in step) {
+      const data = parseKey(step.key)
+      if (data === undefined) {
+        throw new Error(`Unknown key "${step.key}" in response`)
+      }
+      return { type: 'write', data }
+    }
+    if ('text' in step) {
+      return { type: 'write', data: step.text }
+    }
+    if ('wait' in step) {
+      return { type: 'wait', ms: step.wait }
+    }
+    if ('mode' in step) {
+      return { type: 'mode', mode: step.mode }
+    }
+    const text = 'waitFor' in step ? step.waitFor : step.waitForGone
+    return {
+      type: 'waitFor',
+      pattern: parseScreenText(text),
+      gone: !('waitFor' in step),
+      timeout: step.timeout ?? DEFAULT_WAIT_FOR_TIMEOUT,
+    }
+  })
+}
+
+// The option a response picks, when it is a single digit
+function getOptionNumber(
+  response: string | ResponseStep[],
+): number | undefined {
+  const option = Array.isArray(response) ? response[0] : response
+  return typeof option === 'string' && /^[1-9]$/.test(option)
+    ? Number(option)
+    : undefined
+}
 
 export interface QueuedResponse {
   id: string
-  response: string | (string | number)[] | null | undefined
+  response: PatternResponse
   timestamp: number
   delay: number
+  verification?: ResponseVerification
 }
 
 export class ResponseQueue {
@@ -13,6 +122,9 @@ export class ResponseQueue {
   private processing = false
   private ptyProcess?: pty.IPty
   private childProcess?: ChildProcess
+  private readScreen?: () => string | null
+  private onWarning?: (message: string) => void
+  private onWrite?: (data: string) => void
 
   constructor(ptyProcess?: pty.IPty, childProcess?: ChildProcess) {
     this.ptyProcess = ptyProcess
@@ -24,9 +136,32 @@ export class ResponseQueue {
     this.childProcess = childProcess
   }
 
+  /**
+   * Set how waitFor and mode steps read the text on screen. Without a reader
+   * waitFor steps are skipped and mode steps fail.
+   */
+  setScreenReader(readScreen: () => string | null): void {
+    this.readScreen = readScreen
+  }
+
+  /**
+   * Set how to tell the user that a response was abandoned part way
+   */
+  setWarningHandler(onWarning: (message: string) => void): void {
+    this.onWarning = onWarning
+  }
+
+  /**
+   * Set a listener for everything written to Claude Code, e.g. to record it
+   */
+  setWriteListener(onWrite: (data: string) => void): void {
+    this.onWrite = onWrite
+  }
+
   enqueue(
-    response: string | (string | number)[] | null | undefined,
+    response: PatternResponse,
     delay: number = 0,
+    verification?: ResponseVerification,
   ): void {
     // Skip if response is null or undefined
     if (response === null || response === undefined) {
@@ -38,6 +173,7 @@ export class ResponseQueue {
       response,
       timestamp: Date.now(),
       delay,
+      verification,
     }
 
     this.queue.push(queuedResponse)
@@ -54,36 +190,196 @@ export class ResponseQueue {
 
     this.processing = true
 
-    while (this.queue.length > 0) {
-      const item = this.queue.shift()!
+    try {
+      while (this.queue.length > 0) {
+        const item = this.queue.shift()!
+
+        // A response that throws, e.g. because Claude Code has exited, must
+        // not stop the ones queued after it
+        try {
+          if (item.delay > 0) {
+            await this.sleep(item.delay)
+          }
+
+          await this.sendResponse(item.response)
+
+          if (item.verification) {
+            await this.verifyResponse(item.response, item.verification)
+          }
+        } catch (error) {
+          this.onWarning?.(
+            `Couldn't send a response to Claude Code: ${error instanceof Error ? error.message : error}`,
+          )
+        }
+      }
+    } finally {
+      this.processing = false
+    }
+  }
+
+  private async sendResponse(response: string | ResponseStep[]): Promise<void> {
+    for (const step of compileResponse(response)) {
+      switch (step.type) {
+        case 'wait':
+          await this.sleep(step.ms)
+          break
+        case 'waitFor':
+          if (!(await this.waitForScreen(step))) {
+            this.onWarning?.(
+              `Timed out waiting for ${step.gone ? 'waitForGone' : 'waitFor'} ${typeof step.pattern === 'string' ? `"${step.pattern}"` : step.pattern}, skipped the rest of the response`,
+            )
+            return
+          }
+          break
+        case 'mode':
+          if (!(await this.switchMode(step.mode))) {
+            this.onWarning?.(
+              `Couldn't switch Claude Code to ${step.mode} mode, skipped the rest of the response`,
+            )
+            return
+          }
+          break
+        case 'write':
+          this.write(step.data)
+          break
+      }
+    }
+  }
+
+  private write(data: string): void {
+    this.onWrite?.(data)
+    if (this.ptyProcess) {
+      this.ptyProcess.write(data)
+    } else if (this.childProcess?.stdin) {
+      this.childProcess.stdin.write(data)
+    }
+  }
+
+  /**
+   * Press Shift+Tab until the mode indicator shows the requested mode. Each
+   * press waits for the indicator to change, so a slow UI can't cause the
+   * cycle to overshoot.
+   */
+  private async switchMode(target: Mode): Promise<boolean> {
+    if (!this.readScreen) {
+      return false
+    }
 
-      if (item.delay > 0) {
-        await this.sleep(item.delay)
+    let current: DetectedMode = readMode(this.readScreen() ?? '')
+    for (
+      let presses = 0;
+      presses < MAX_MODE_PRESSES && current !== target;
+      presses++
+    ) {
+      const previous: DetectedMode = current
+      this.write(parseKey('shift+tab')!)
+
+      const deadline = Date.now() + MODE_SWITCH_TIMEOUT
+      current = readMode(this.readScreen() ?? '')
+      while (current === previous) {
+        if (Date.now() >= deadline) {
+          return false
+        }
+        await this.sleep(POLL_INTERVAL)
+        current = readMode(this.readScreen() ?? '')
       }
+    }
+    return current === target
+  }
+
+  /**
+   * Poll the screen until a waitFor step's text appears, or disappears for
+   * waitForGone. Returns false if the step timed out.
+   */
+  private async waitForScreen(
+    step: Extract<CompiledResponseStep, { type: 'waitFor' }>,
+  ): Promise<boolean> {
+    if (!this.readScreen) {
+      return true
+    }
 
-      await this.sendResponse(item.response)
+    const isOnScreen = (): boolean => {
+      const screen = this.readScreen!() ?? ''
+      return typeof step.pattern === 'string'
+        ? screen.includes(step.pattern)
+        : step.pattern.test(screen)
     }
 
-    this.processing = false
+    const deadline = Date.now() + step.timeout
+    while (isOnScreen() === step.gone) {
+      if (Date.now() >= deadline) {
+        return false
+      }
+      await this.sleep(POLL_INTERVAL)
+    }
+    return true
   }
 
-  private async sendResponse(
-    response: string | (string | number)[],
+  /**
+   * Wait for the prompt to be dismissed, retrying with each strategy in turn.
+   * If the prompt is still there afterwards it is left for the user.
+   */
+  private async verifyResponse(
+    response: string | ResponseStep[],
+    verification: ResponseVerification,
   ): Promise<void> {
-    const responses = Array.isArray(response) ? response : [response]
-    for (const resp of responses) {
-      if (typeof resp === 'number') {
-        // If it's a number, use it as a pause duration in milliseconds
-        await this.sleep(resp)
-      } else {
-        // If it's a string, send it to the PTY or child process
-        if (this.ptyProcess) {
-          this.ptyProcess.write(resp)
-        } else if (this.childProcess?.stdin) {
-          this.childProcess.stdin.write(resp)
-        }
+    if (await this.waitForDismissal(verification)) {
+      return
+    }
+
+    for (const strategy of verification.strategies) {
+      const retry = this.getRetryResponse(strategy, response)
+      if (!retry) {
+        continue
+      }
+
+      await this.sendResponse(retry)
+      if (await this.waitForDismissal(verification)) {
+        return
       }
     }
+
+    verification.onFailed()
+  }
+
+  private async waitForDismissal(
+    verification: ResponseVerification,
+  ): Promise<boolean> {
+    const deadline = Date.now() + verification.timeout
+    while (!verification.isDismissed()) {
+      if (Date.now() >= deadline) {
+        // The screen can lag behind Claude Code's output, so bring it up to
+        // date before deciding the prompt is still there
+        await verification.flush?.()
+        return verification.isDismissed()
+      }
+      await this.sleep(POLL_INTERVAL)
+    }
+    return true
+  }
+
+  private getRetryResponse(
+    strategy: RetryStrategy,
+    response: string | ResponseStep[],
+  ): string | ResponseStep[] | undefined {
+    const option = getOptionNumber(response)
+    switch (strategy) {
+      case 'resend':
+        return response
+      case 'enter':
+        // The first option is highlighted when a prompt appears
+        return option === 1 ? '\r' : undefined
+      case 'arrow-select':
+        // Move the selection to the numbered option and confirm it
+        if (option === undefined) {
+          return undefined
+        }
+        return (
+          '\x1b[A'.repeat(MAX_PROMPT_OPTIONS) +
+          '\x1b[B'.repeat(option - 1) +
+          '\r'
+        )
+    }
   }
 
   private sleep(ms: number): Promise<void> {
@@ -0,0 +1,186 @@
+export type SessionState =
+  | 'starting'
+  | 'working'
+  | 'awaiting-confirmation'
+  | 'idle'
+  | 'exited'
+
+export interface SessionStateEvent {
+  state: SessionState
+  previousState: SessionState
+  timestamp: number
+  // How long the session was in the previous state
+  duration: number
+  // On idle and exited, how long since Claude started working on the turn
+  turnDuration?: number
+}
+
+export type SessionStateHandler = (event: SessionStateEvent) => void
+
+// Shown next to the spinner while Claude is working on a turn
+const WORKING_HINT = 'esc to interrupt'
+// Shown under the empty input box, or the mode indicator in other modes
+const IDLE_HINTS = ['? for shortcuts', 'shift+tab to cycle']
+// The selection cursor in front of a numbered option
+const CONFIRMATION_REGEX = /❯\s*\d+\./
+
+// Output is checked at most this often while it is streaming
+const CHECK_DELAY = 200
+// The input box must stay idle this long before the turn counts as finished,
+// so the moment between submitting and the spinner appearing isn't idle
+const IDLE_CONFIRM_DELAY = 1000
+
+/**
+ * Tell what Claude is doing from the text on screen. Returns undefined when
+ * the screen doesn't show any of the known states, e.g. while starting up.
+ */
+export function classifyScreen(
+  screen: string,
+): 'working' | 'awaiting-confirmation' | 'idle' | undefined {
+  if (screen.includes(WORKING_HINT)) {
+    return 'working'
+  }
+  if (CONFIRMATION_REGEX.test(screen)) {
+    return 'awaiting-confirmation'
+  }
+  if (IDLE_HINTS.some(hint => screen.includes(hint))) {
+    return 'idle'
+  }
+  return undefined
+}
+
+/**
+ * Format a duration in milliseconds as e.g. 45s, 4m12s or 1h03m
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  if (hours > 0) {
+    return `${hours}h${String(minutes).padStart(2, '0')}m`
+  }
+  if (minutes > 0) {
+    return `${minutes}m${String(seconds).padStart(2, '0')}s`
+  }
+  return `${seconds}s`
+}
+
+/**
+ * Track whether Claude is working, waiting for a confirmation, idle at the
+ * input box or has exited. The screen is checked as terminal output arrives
+ * and handlers are called on every change of state.
+ */
+export class SessionStateTracker {
+  private readScreen: () => string | null
+  private handlers: SessionStateHandler[] = []
+  private state: SessionState = 'starting'
+  private stateChangedAt = Date.now()
+  private turnStartedAt: number | null = null
+  private checkTimer: NodeJS.Timeout | null = null
+  private idleTimer: NodeJS.Timeout | null = null
+
+  constructor(readScreen: () => string | null) {
+    this.readScreen = readScreen
+  }
+
+  onChange(handler: SessionStateHandler): void {
+    this.handlers.push(handler)
+  }
+
+  getState(): SessionState {
+    return this.state
+  }
+
+  /**
+   * Record terminal output. The screen is checked shortly after, and at a
+   * steady rate while output keeps streaming.
+   */
+  activity(): void {
+    if (this.state === 'exited' || this.checkTimer) {
+      return
+    }
+    this.checkTimer = setTimeout(() => {
+      this.checkTimer = null
+      this.check()
+    }, CHECK_DELAY)
+  }
+
+  markExited(): void {
+    this.clearTimers()
+    this.setState('exited')
+  }
+
+  dispose(): void {
+    this.clearTimers()
+    this.handlers = []
+  }
+
+  private check(): void {
+    const screen = this.readScreen()
+    if (screen === null) {
+      return
+    }
+
+    const observed = classifyScreen(screen)
+    if (observed !== 'idle' && this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+
+    if (observed === 'idle') {
+      if (this.state !== 'idle' && !this.idleTimer) {
+        this.idleTimer = setTimeout(() => {
+          this.idleTimer = null
+          // Only idle if nothing else showed up in the meantime
+          const screen = this.readScreen()
+          if (screen !== null && classifyScreen(screen) === 'idle') {
+            this.setState('idle')
+          }
+        }, IDLE_CONFIRM_DELAY)
+      }
+    } else if (observed) {
+      this.setState(observed)
+    }
+  }
+
+  private setState(state: SessionState): void {
+    if (state === this.state) {
+      return
+    }
+
+    const timestamp = Date.now()
+    const event: SessionStateEvent = {
+      state,
+      previousState: this.state,
+      timestamp,
+      duration: timestamp - this.stateChangedAt,
+    }
+
+    if (state === 'working' && this.turnStartedAt === null) {
+      this.turnStartedAt = timestamp
+    } else if (
+      (state === 'idle' || state === 'exited') &&
+      this.turnStartedAt !== null
+    ) {
+      event.turnDuration = timestamp - this.turnStartedAt
+      this.turnStartedAt = null
+    }
+
+    this.state = state
+    this.stateChangedAt = timestamp
+    this.handlers.forEach(handler => handler(event))
+  }
+
+  private clearTimers(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer)
+      this.checkTimer = null
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+  }
+}
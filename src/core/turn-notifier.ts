@@ -0,0 +1,57 @@
+import type { SessionStateEvent } from './session-state'
+
+// How long Claude must sit at the input box before the notification is sent
+export const DEFAULT_TURN_FINISHED_DELAY = 5000
+// Turns shorter than this are quick answers the user is likely watching
+export const DEFAULT_TURN_FINISHED_MIN_DURATION = 30000
+
+export interface TurnFinishedTiming {
+  delay?: number
+  minDuration?: number
+}
+
+/**
+ * Call back once Claude has finished a long turn and stayed idle at the
+ * input box for a while. Any change of state cancels the pending callback,
+ * and so should the user typing, since they are clearly back.
+ */
+export class TurnFinishedNotifier {
+  private delay: number
+  private minDuration: number
+  private onFinished: (turnDuration: number) => void
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(
+    timing: TurnFinishedTiming,
+    onFinished: (turnDuration: number) => void,
+  ) {
+    this.delay = timing.delay ?? DEFAULT_TURN_FINISHED_DELAY
+    this.minDuration = timing.minDuration ?? DEFAULT_TURN_FINISHED_MIN_DURATION
+    this.onFinished = onFinished
+  }
+
+  handleStateChange(event: SessionStateEvent): void {
+    this.cancel()
+
+    if (
+      event.state !== 'idle' ||
+      event.turnDuration === undefined ||
+      event.turnDuration < this.minDuration
+    ) {
+      return
+    }
+
+    const turnDuration = event.turnDuration
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.onFinished(turnDuration)
+    }, this.delay)
+  }
+
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
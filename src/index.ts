@@ -6,19 +6,27 @@ import { spawn } from 'child_process'
 import { fileURLToPath } from 'node:url'
 import picomatch from 'picomatch'
 import { PatternMatcher, MatchResult } from './patterns/matcher'
-import { ResponseQueue } from './core/response-queue'
+import { loadConfiguredPatterns } from './patterns/active'
+import {
+  ResponseQueue,
+  type ResponseVerification,
+  DEFAULT_RETRY_STRATEGIES,
+  DEFAULT_VERIFICATION_TIMEOUT,
+} from './core/response-queue'
 import {
-  patterns,
   confirmationPatterns,
   createAppReadyPattern,
   createTrustPromptPattern,
+  createSubmitPromptResponse,
 } from './patterns/registry'
-import { type AppConfig } from './config/schemas.js'
+import { type AppConfig, type PromptAction } from './config/schemas.js'
 import { runPreflight, log, warn } from './core/preflight.js'
 import { CLAUDE_PATHS } from './config/paths.js'
 import {
   showNotification,
   showPatternNotification,
+  showResponseFailedNotification,
+  showTurnFinishedNotification,
 } from './utils/notifications.js'
 import { TerminalManager } from './terminal/manager'
 import {
@@ -27,49 +35,61 @@ import {
   calculateMd5,
   saveTerminalSnapshot,
 } from './terminal/utils'
-import type { TerminalConfig } from './terminal/types'
+import type { TerminalConfig, TerminalViewport } from './terminal/types'
+import { SettleDetector, resolveSettleTiming } from './terminal/settle'
+import { SessionRecorder } from './terminal/recorder'
+import { terminalOutput } from './terminal/output'
+import { PromptQueue } from './core/prompt-queue'
+import { SessionStateTracker, formatDuration } from './core/session-state'
+import { TurnFinishedNotifier } from './core/turn-notifier'
+import { PendingPrompts } from './core/pending-prompts'
+import type { ControlRequest, ControlResponse } from './terminal/control-socket'
 import { isFileInProjectRoot } from './utils/file-utils.js'
+import {
+  combinePipedInput,
+  openTerminalInput,
+  readPipedInput,
+} from './cli/piped-input.js'
 import {
   checkAcceptConfig,
-  shouldAcceptPrompt as shouldAcceptPromptUtil,
+  getPromptAction as getPromptActionUtil,
+  REJECT_RESPONSE,
 } from './utils/prompt-acceptance.js'
 
 let patternMatcher: PatternMatcher
 let responseQueue: ResponseQueue
 let terminalManager: TerminalManager
+let settleDetector: SettleDetector
+let sessionStateTracker: SessionStateTracker
+let turnFinishedNotifier: TurnFinishedNotifier
+let promptQueue: PromptQueue | undefined
+const pendingPrompts = new PendingPrompts()
 let tempMcpConfigPath: string | undefined
 let appConfig: AppConfig | undefined
 let yolo: boolean | undefined
 let confirmationPatternTriggers: string[] = []
 let positionalArgContentPath: string | undefined
+let pipedInputPath: string | undefined
+let recorder: SessionRecorder | undefined
 
 const debugLog = util.debuglog('claude-composer')
 
 export { appConfig, positionalArgContentPath }
 
 async function initializePatterns(): Promise<boolean> {
-  let patternsToUse = patterns
-
-  if (process.env.CLAUDE_PATTERNS_PATH) {
-    try {
-      const customPatterns = await import(process.env.CLAUDE_PATTERNS_PATH)
-      const { validatePatternConfigs } = await import('./config/schemas.js')
-      const validationResult = validatePatternConfigs(customPatterns.patterns)
-      if (!validationResult.success) {
-        console.error(
-          `Invalid custom pattern configuration from ${process.env.CLAUDE_PATTERNS_PATH}:`,
-          JSON.stringify(validationResult.error.errors, null, 2),
-        )
-      } else {
-        patternsToUse = validationResult.data
-      }
-    } catch (error) {
-      console.warn(
-        `Failed to load custom patterns from ${process.env.CLAUDE_PATTERNS_PATH}:`,
-        error,
-      )
-    }
+  const activePatterns = await loadConfiguredPatterns(
+    appConfig?.allow_project_patterns,
+  )
+  const patternsToUse = activePatterns.map(active => active.pattern)
+  const filePatternCount = activePatterns.filter(
+    active => active.source === 'file',
+  ).length
+  if (filePatternCount > 0) {
+    log(
+      `※ Loaded ${filePatternCount} pattern${filePatternCount === 1 ? '' : 's'} from patterns directory`,
+    )
   }
+
   patternMatcher = new PatternMatcher(
     appConfig?.log_all_pattern_matches || false,
   )
@@ -101,10 +121,26 @@ async function initializePatterns(): Promise<boolean> {
 }
 
 function cleanup() {
+  if (settleDetector) {
+    settleDetector.cancel()
+  }
+
+  if (sessionStateTracker) {
+    sessionStateTracker.dispose()
+  }
+
+  if (turnFinishedNotifier) {
+    turnFinishedNotifier.cancel()
+  }
+
   if (terminalManager) {
     terminalManager.cleanup()
   }
 
+  if (recorder) {
+    recorder.close()
+  }
+
   if (tempMcpConfigPath && fs.existsSync(tempMcpConfigPath)) {
     try {
       fs.unlinkSync(tempMcpConfigPath)
@@ -117,6 +153,12 @@ function cleanup() {
     } catch (e) {}
   }
 
+  if (pipedInputPath && fs.existsSync(pipedInputPath)) {
+    try {
+      fs.unlinkSync(pipedInputPath)
+    } catch (e) {}
+  }
+
   const ttyStream = (global as any).__ttyStream
   if (ttyStream) {
     try {
@@ -148,17 +190,44 @@ process.on('uncaughtException', error => {
   process.exit(1)
 })
 
-function shouldAcceptPrompt(match: MatchResult): boolean {
-  return shouldAcceptPromptUtil(match, appConfig, yolo)
+function getPromptAction(match: MatchResult): PromptAction {
+  return getPromptActionUtil(match, appConfig, yolo)
 }
 
-function handlePatternMatches(data: string, filterType?: 'confirmation'): void {
-  const matches = filterType
-    ? patternMatcher.processDataByType(data, filterType)
-    : patternMatcher.processData(data)
+/**
+ * Watch for the matched prompt to leave the screen after it is answered, so
+ * a response the app ignored is retried and then handed back to the user
+ */
+function createResponseVerification(
+  match: MatchResult,
+): ResponseVerification | undefined {
+  if (appConfig?.verify_responses === false) {
+    return undefined
+  }
+
+  return {
+    isDismissed: () => {
+      const viewport = terminalManager.peekViewport()
+      return (
+        viewport === null || !patternMatcher.isMatchOnScreen(viewport, match)
+      )
+    },
+    flush: () => terminalManager.flushTerminalBuffer(),
+    strategies:
+      appConfig?.response_retry_strategies ?? DEFAULT_RETRY_STRATEGIES,
+    timeout:
+      appConfig?.response_verification_timeout ?? DEFAULT_VERIFICATION_TIMEOUT,
+    onFailed: () => {
+      showResponseFailedNotification(match, appConfig).catch(err => {})
+    },
+  }
+}
+
+function handlePatternMatches(viewport: TerminalViewport): void {
+  const matches = patternMatcher.processViewport(viewport)
 
   for (const match of matches) {
-    let actionResponse: 'Accepted' | 'Prompted' | undefined
+    let actionResponse: 'Accepted' | 'Prompted' | 'Rejected' | undefined
     let actionResponseIcon: string | undefined
 
     if (
@@ -168,12 +237,18 @@ function handlePatternMatches(data: string, filterType?: 'confirmation'): void {
         ? match.response.length > 0
         : match.response !== '')
     ) {
-      responseQueue.enqueue(match.response)
+      responseQueue.enqueue(
+        match.response,
+        0,
+        createResponseVerification(match),
+      )
       actionResponse = 'Accepted'
       actionResponseIcon = '👍'
     } else if (match.patternId === 'app-ready-handler' && match.response) {
       // Always accept app-ready-handler responses
       responseQueue.enqueue(match.response)
+      // Later prompts wait for the turn started by the first one
+      promptQueue?.start()
       actionResponse = 'Accepted'
       actionResponseIcon = '👍'
 
@@ -184,28 +259,47 @@ function handlePatternMatches(data: string, filterType?: 'confirmation'): void {
       if (index > -1) {
         confirmationPatternTriggers.splice(index, 1)
       }
-    } else if (shouldAcceptPrompt(match)) {
-      responseQueue.enqueue(match.response)
-      actionResponse = 'Accepted'
-      actionResponseIcon = '👍'
+    } else {
+      const promptAction = getPromptAction(match)
 
-      if (match.patternId === 'app-ready-handler') {
-        patternMatcher.removePattern('app-ready-handler')
-        const triggerText = '? for shortcuts'
-        const index = confirmationPatternTriggers.indexOf(triggerText)
-        if (index > -1) {
-          confirmationPatternTriggers.splice(index, 1)
+      if (promptAction === 'accept') {
+        responseQueue.enqueue(
+          match.response,
+          0,
+          createResponseVerification(match),
+        )
+        actionResponse = 'Accepted'
+        actionResponseIcon = '👍'
+
+        if (match.patternId === 'app-ready-handler') {
+          patternMatcher.removePattern('app-ready-handler')
+          const triggerText = '? for shortcuts'
+          const index = confirmationPatternTriggers.indexOf(triggerText)
+          if (index > -1) {
+            confirmationPatternTriggers.splice(index, 1)
+          }
         }
-      }
 
-      if (match.patternId === 'allow-trusted-root') {
-        patternMatcher.removePattern('allow-trusted-root')
+        if (match.patternId === 'allow-trusted-root') {
+          patternMatcher.removePattern('allow-trusted-root')
+        }
+      } else if (promptAction === 'reject') {
+        // Rejections aren't retried, a retry could select an option instead
+        responseQueue.enqueue(REJECT_RESPONSE)
+        actionResponse = 'Rejected'
+        actionResponseIcon = '👎'
+      } else {
+        actionResponse = 'Prompted'
+        actionResponseIcon = '✋'
+        forgetAnsweredPrompts(viewport)
+        pendingPrompts.add(match)
       }
-    } else {
-      actionResponse = 'Prompted'
-      actionResponseIcon = '✋'
     }
 
+    recorder?.marker(
+      `${actionResponse ?? 'Matched'} ${match.patternTitle} (${match.patternId})`,
+    )
+
     if (appConfig.show_notifications !== false && match.notification) {
       if (
         (match.patternId === 'bash-command-prompt-format-1' ||
@@ -225,90 +319,113 @@ function handlePatternMatches(data: string, filterType?: 'confirmation'): void {
   }
 }
 
+function forgetAnsweredPrompts(viewport: TerminalViewport | null): void {
+  if (viewport) {
+    pendingPrompts.prune(match =>
+      patternMatcher.isMatchOnScreen(viewport, match),
+    )
+  }
+}
+
+/**
+ * Answer requests from the session's control socket, e.g. from cc-approve
+ */
+function handleControlRequest(request: ControlRequest): ControlResponse {
+  forgetAnsweredPrompts(terminalManager.peekViewport())
+  const session = { pid: process.pid, cwd: process.cwd() }
+
+  if (request.command === 'list') {
+    return { ok: true, session, prompts: pendingPrompts.list() }
+  }
+
+  const pending = pendingPrompts.take(request.id)
+  if (!pending) {
+    return {
+      ok: false,
+      error:
+        request.id === undefined
+          ? 'No prompts are waiting for an answer'
+          : `No prompt ${request.id} is waiting for an answer`,
+    }
+  }
+
+  const { prompt, match } = pending
+  recorder?.marker(
+    `${request.command === 'approve' ? 'Approved' : 'Denied'} ${prompt.patternTitle} (${prompt.patternId}) through the control socket`,
+  )
+  if (request.command === 'approve') {
+    responseQueue.enqueue(match.response, 0, createResponseVerification(match))
+  } else {
+    responseQueue.enqueue(REJECT_RESPONSE)
+  }
+  debugLog(
+    `${request.command === 'approve' ? 'Approved' : 'Denied'} ${prompt.patternTitle} prompt ${prompt.id} through the control socket`,
+  )
+  return { ok: true, session, prompt }
+}
+
+function readScreen(): string | null {
+  return terminalManager.peekViewport()?.lines.join('\n') ?? null
+}
+
 function handleTerminalData(data: string): void {
   try {
-    process.stdout.write(data)
+    terminalOutput.mirror(data)
+    recorder?.output(data)
 
     terminalManager.updateTerminalBuffer(data)
 
-    const matchedTrigger = confirmationPatternTriggers.find(trigger =>
+    settleDetector.activity()
+    sessionStateTracker.activity()
+
+    const matchedTriggers = confirmationPatternTriggers.filter(trigger =>
       data.includes(trigger),
     )
-    if (matchedTrigger) {
-      const state = terminalManager.getTerminalState()
-      if (state.pendingPromptCheck) {
-        clearTimeout(state.pendingPromptCheck)
-      }
-
-      const timeout = setTimeout(async () => {
-        try {
-          const currentScreenContent = await terminalManager.captureSnapshot()
-          if (currentScreenContent) {
-            handlePatternMatches(currentScreenContent, 'confirmation')
-          }
-        } catch (error) {}
-        terminalManager.setPendingPromptCheck(null)
-      }, 100)
-
-      terminalManager.setPendingPromptCheck(timeout)
+    if (matchedTriggers.length > 0) {
+      const triggeredPatterns = matchedTriggers.flatMap(trigger =>
+        patternMatcher.getPatternsForTrigger(trigger),
+      )
+      settleDetector.trigger(
+        triggeredPatterns.map(pattern => pattern.id),
+        resolveSettleTiming(triggeredPatterns),
+      )
     }
   } catch (error) {}
 }
 
 function handleStdinData(data: Buffer): void {
   try {
+    turnFinishedNotifier.cancel()
+    recorder?.input(data.toString())
     terminalManager.handleStdinData(data)
   } catch (error) {}
 }
 
 export async function main() {
-  // Check for piped input and exit immediately
-  if (!process.stdin.isTTY) {
-    console.error(
-      '\x1b[31m╔══════════════════════════════════════════════════════╗\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m║               PIPED INPUT NOT SUPPORTED              ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m╠══════════════════════════════════════════════════════╣\x1b[0m',
-    )
-    console.error(
-      "\x1b[31m║ Claude Composer doesn't support piped input.         ║\x1b[0m",
-    )
-    console.error(
-      '\x1b[31m║                                                      ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m║ Instead, pass your content as a positional argument: ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m║                                                      ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m║   claude "your content here"                         ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m║                                                      ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m║ Example:                                             ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m║   claude "explain this error: ..."                   ║\x1b[0m',
-    )
-    console.error(
-      '\x1b[31m╚══════════════════════════════════════════════════════╝\x1b[0m',
-    )
-    process.exit(1)
-  }
-
   if (process.argv[2] === 'cc-init') {
     const { handleCcInit } = await import('./cli/cc-init.js')
     await handleCcInit(process.argv.slice(3))
     return
   }
 
+  if (process.argv[2] === 'cc-approve') {
+    const { handleCcApprove } = await import('./cli/cc-approve.js')
+    await handleCcApprove(process.argv.slice(3))
+    return
+  }
+
+  if (process.argv[2] === 'cc-replay') {
+    const { handleCcReplay } = await import('./cli/cc-replay.js')
+    await handleCcReplay(process.argv.slice(3))
+    return
+  }
+
+  if (process.argv[2] === 'cc-patterns') {
+    const { handleCcPatterns } = await import('./cli/cc-patterns.js')
+    await handleCcPatterns(process.argv.slice(3))
+    return
+  }
+
   if (process.argv.includes('--help') || process.argv.includes('-h')) {
     const { createClaudeComposerCommand } = await import('./cli/parser.js')
     const program = createClaudeComposerCommand()
@@ -413,6 +530,60 @@ export async function main() {
   if (tempMcpConfigPath) {
     terminalManager.setTempMcpConfigPath(tempMcpConfigPath)
   }
+  responseQueue.setScreenReader(readScreen)
+  responseQueue.setWriteListener(data => {
+    recorder?.marker(`Sent ${JSON.stringify(data)}`)
+  })
+  responseQueue.setWarningHandler(message => {
+    warn(`※ ${message}`)
+    if (appConfig?.show_notifications !== false) {
+      showNotification(
+        { title: '⚠️ Claude Composer', message },
+        appConfig,
+        'prompted_confirmation',
+      ).catch(err => {})
+    }
+  })
+  settleDetector = new SettleDetector(
+    patternIds => {
+      const viewport = terminalManager.peekViewport()
+      return (
+        viewport !== null && patternMatcher.isRendered(viewport, patternIds)
+      )
+    },
+    () => {
+      try {
+        const viewport = terminalManager.captureViewport()
+        if (viewport) {
+          handlePatternMatches(viewport)
+        }
+      } catch (error) {}
+    },
+  )
+  sessionStateTracker = new SessionStateTracker(readScreen)
+  sessionStateTracker.onChange(event => {
+    if (event.turnDuration !== undefined) {
+      debugLog(`Claude finished after ${formatDuration(event.turnDuration)}`)
+    } else {
+      debugLog(`Session state: ${event.previousState} -> ${event.state}`)
+    }
+  })
+  turnFinishedNotifier = new TurnFinishedNotifier(
+    {
+      delay: appConfig?.turn_finished_notify_delay,
+      minDuration: appConfig?.turn_finished_notify_min_duration,
+    },
+    turnDuration => {
+      showTurnFinishedNotification(
+        path.basename(process.cwd()),
+        turnDuration,
+        appConfig,
+      ).catch(err => {})
+    },
+  )
+  sessionStateTracker.onChange(event =>
+    turnFinishedNotifier.handleStateChange(event),
+  )
 
   const childAppPath = CLAUDE_PATHS.findClaudeCommand()
 
@@ -451,13 +622,56 @@ export async function main() {
     // Silently fail - don't output to console after child process starts
   }
 
+  // Piped input goes into the first prompt, and the session takes its
+  // keystrokes from the terminal instead
+  let pipedInput: string | undefined
+  let terminalInput: NodeJS.ReadStream = process.stdin
+  if (!process.stdin.isTTY && !preflightResult.hasPrintOption) {
+    try {
+      terminalInput = openTerminalInput()
+    } catch (error) {
+      console.error(
+        `\x1b[31m※ Error: Piped input needs a terminal for the interactive session, use --print to run without one\x1b[0m`,
+      )
+      process.exit(1)
+    }
+
+    log('※ Reading piped input')
+    pipedInput = await readPipedInput(process.stdin)
+  }
+
   log('※ Ready, Passing off control to Claude CLI')
 
   const childArgs = preflightResult.childArgs
 
-  // Check if we have positional arguments that should be treated as content
+  const queuedPrompts = [...(preflightResult.queuedPrompts || [])]
+
+  // Check if we have positional arguments that should be treated as content,
+  // otherwise the first queued prompt takes its place
+  let firstPrompt: string | undefined
   if (childArgs.length > 0 && childArgs[0] && !childArgs[0].startsWith('-')) {
-    // Save the positional argument to a file
+    firstPrompt = childArgs[0]
+
+    // Remove the argument from childArgs
+    childArgs.splice(0, 1)
+  } else {
+    firstPrompt = queuedPrompts.shift()
+  }
+
+  if (pipedInput?.trim()) {
+    firstPrompt = combinePipedInput(firstPrompt, pipedInput, content => {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+      pipedInputPath = path.join(
+        os.tmpdir(),
+        `claude-composer-piped-${timestamp}.txt`,
+      )
+      fs.writeFileSync(pipedInputPath, content)
+      return pipedInputPath
+    })
+  }
+
+  if (firstPrompt !== undefined) {
+    // Save the first prompt to a file
     const tmpDir = os.tmpdir()
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
     positionalArgContentPath = path.join(
@@ -465,11 +679,15 @@ export async function main() {
       `claude-composer-positional-${timestamp}.txt`,
     )
 
-    // Write the first positional argument to the file
-    fs.writeFileSync(positionalArgContentPath, childArgs[0])
+    fs.writeFileSync(positionalArgContentPath, firstPrompt)
+  }
 
-    // Remove the argument from childArgs
-    childArgs.splice(0, 1)
+  if (queuedPrompts.length > 0) {
+    const queue = new PromptQueue(queuedPrompts, prompt =>
+      responseQueue.enqueue(createSubmitPromptResponse(prompt)),
+    )
+    sessionStateTracker.onChange(event => queue.handleStateChange(event))
+    promptQueue = queue
   }
 
   const terminalConfig: TerminalConfig = {
@@ -480,20 +698,51 @@ export async function main() {
     cwd: process.env.PWD || process.cwd(),
     childAppPath,
     childArgs,
+    input: terminalInput,
+  }
+
+  if (preflightResult.recordingPath) {
+    try {
+      const sessionRecorder = new SessionRecorder(preflightResult.recordingPath)
+      sessionRecorder.start(
+        terminalConfig.cols,
+        terminalConfig.rows,
+        `Claude Composer: ${path.basename(process.cwd())}`,
+      )
+      recorder = sessionRecorder
+      log(`※ Recording session to ${preflightResult.recordingPath}`)
+    } catch (error) {
+      warn(`※ Couldn't start recording: ${error}`)
+    }
   }
 
   await terminalManager.initialize(terminalConfig)
 
+  if (
+    terminalConfig.isTTY &&
+    appConfig?.control_socket === true &&
+    process.platform !== 'win32'
+  ) {
+    try {
+      const socketPath =
+        await terminalManager.startControlSocket(handleControlRequest)
+      debugLog(`Control socket listening at ${socketPath}`)
+    } catch (error) {
+      debugLog(`Couldn't start the control socket: ${error}`)
+    }
+  }
+
   terminalManager.onData(handleTerminalData)
 
   terminalManager.onExit((code: number) => {
+    sessionStateTracker.markExited()
     cleanup()
     process.exit(code)
   })
 
-  // Add app ready pattern if in plan mode or if we saved positional args
+  // Add app ready pattern if a mode was requested or if we saved positional args
   // IMPORTANT: This must be done AFTER terminal manager is initialized so response queue has targets
-  if (appConfig?.mode === 'plan' || positionalArgContentPath) {
+  if (appConfig?.mode || positionalArgContentPath) {
     const appStartedPattern = createAppReadyPattern(() => ({
       positionalArgContentPath,
       mode: appConfig?.mode,
@@ -506,12 +755,13 @@ export async function main() {
     }
   }
 
-  process.stdin.on('data', handleStdinData)
+  terminalInput.on('data', handleStdinData)
 
   process.stdout.on('resize', () => {
     const newCols = process.stdout.columns || 80
     const newRows = process.stdout.rows || 30
     terminalManager.resize(newCols, newRows)
+    recorder?.resize(newCols, newRows)
   })
 }
 
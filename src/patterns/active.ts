@@ -0,0 +1,98 @@
+import { validatePatternConfigs, type PatternConfig } from '../config/schemas'
+import { loadUserPatternFiles } from '../config/loader'
+import { mergePatterns, patterns } from './registry'
+
+// Where a pattern comes from. Dynamic patterns are created by the session
+// from its configuration.
+export type PatternSource = 'built-in' | 'env' | 'file' | 'dynamic'
+
+export interface ActivePattern {
+  pattern: PatternConfig
+  source: PatternSource
+  // File the pattern, or its override, was loaded from
+  sourcePath?: string
+  // Source of the pattern a pattern file entry was merged over
+  overrides?: PatternSource
+  // When a dynamic pattern is added, if not always
+  condition?: string
+}
+
+async function loadCustomPatterns(
+  customPatternsPath: string,
+): Promise<PatternConfig[] | undefined> {
+  try {
+    const customPatterns = await import(customPatternsPath)
+    const validationResult = validatePatternConfigs(customPatterns.patterns)
+    if (!validationResult.success) {
+      console.error(
+        `Invalid custom pattern configuration from ${customPatternsPath}:`,
+        JSON.stringify(validationResult.error.errors, null, 2),
+      )
+      return undefined
+    }
+    return validationResult.data
+  } catch (error) {
+    console.warn(
+      `Failed to load custom patterns from ${customPatternsPath}:`,
+      error,
+    )
+    return undefined
+  }
+}
+
+/**
+ * The configured patterns: built-in patterns, or those from
+ * CLAUDE_PATTERNS_PATH, with the patterns directories merged over them.
+ * Each pattern file entry is validated once merged, and entries that don't
+ * make a valid pattern are skipped with a warning.
+ */
+export async function loadConfiguredPatterns(
+  allowProjectPatterns: boolean = false,
+): Promise<ActivePattern[]> {
+  let active: ActivePattern[] = patterns.map(pattern => ({
+    pattern,
+    source: 'built-in',
+  }))
+
+  const customPatternsPath = process.env.CLAUDE_PATTERNS_PATH
+  if (customPatternsPath) {
+    const customPatterns = await loadCustomPatterns(customPatternsPath)
+    if (customPatterns) {
+      active = customPatterns.map(pattern => ({
+        pattern,
+        source: 'env',
+        sourcePath: customPatternsPath,
+      }))
+    }
+  }
+
+  for (const file of await loadUserPatternFiles(allowProjectPatterns)) {
+    for (const entry of file.patterns) {
+      const index = active.findIndex(a => a.pattern.id === entry.id)
+      const [pattern] = mergePatterns(
+        index === -1 ? [] : [active[index].pattern],
+        [entry],
+      )
+      const validationResult = validatePatternConfigs([pattern])
+      if (!validationResult.success) {
+        console.warn(
+          `Skipping pattern ${entry.id} in ${file.filePath}: ${validationResult.error.issues.map(issue => `${issue.path.slice(1).join('.')}: ${issue.message}`).join(', ')}`,
+        )
+        continue
+      }
+      const loaded: ActivePattern = {
+        pattern: validationResult.data[0],
+        source: 'file',
+        sourcePath: file.filePath,
+      }
+      if (index === -1) {
+        active.push(loaded)
+      } else {
+        loaded.overrides = active[index].overrides ?? active[index].source
+        active[index] = loaded
+      }
+    }
+  }
+
+  return active
+}
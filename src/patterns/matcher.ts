@@ -2,13 +2,14 @@ import stripAnsi from 'strip-ansi'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as os from 'os'
-import { type PatternConfig } from '../config/schemas'
+import { type PatternConfig, type PatternResponse } from '../config/schemas'
 import { CONFIG_PATHS } from '../config/paths'
+import type { TerminalViewport } from '../terminal/types'
 
 export interface MatchResult {
   patternId: string
   patternTitle: string
-  response: string | (string | number)[] | null | undefined
+  response: PatternResponse
   matchedText: string
   fullMatchedContent: string
   firstLineNumber: number
@@ -17,6 +18,9 @@ export interface MatchResult {
   strippedBufferContent: string
   extractedData?: Record<string, string>
   notification?: string
+  // Absolute xterm buffer rows, set when matching against a viewport
+  firstBufferRow?: number
+  lastBufferRow?: number
 }
 
 interface MatchedLine {
@@ -28,20 +32,62 @@ interface MatchedLine {
 
 type PlaceholderType = 'simple' | 'multiline'
 
+type PlaceholderValueType = 'text' | 'int' | 'path' | 'url' | 'regex'
+
 interface PlaceholderInfo {
   name: string
   type: PlaceholderType
+  valueType: PlaceholderValueType
+  regexSource?: string
+  valueRegex?: RegExp
+  optional: boolean
   start: number
   end: number
 }
 
 // Constants for placeholder parsing
-const PLACEHOLDER_REGEX = /\{\{\s*([^}]+)\s*\}\}/g
-const PLACEHOLDER_MARKER = '___PLACEHOLDER___'
+const PLACEHOLDER_REGEX = /\{\{\s*(.+?)\s*\}\}/g
+
+// Line modifiers at the start of a pattern line: [not], [next], [within N]
+const SEQUENCE_MODIFIER_REGEX = /^\[(not|next|within (\d+))\]\s*/
+
+// Capture groups for typed placeholders, used in place of the default (.*)
+const VALUE_TYPE_PATTERNS: Record<
+  Exclude<PlaceholderValueType, 'regex'>,
+  string
+> = {
+  text: '.*',
+  int: '[-+]?\\d+',
+  path: '\\S+',
+  url: '(?:[a-zA-Z][a-zA-Z0-9+.-]*://)?(?:localhost|[\\w-]+(?:\\.[\\w-]+)+)(?::\\d+)?(?:[/?#]\\S*)?',
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function countCaptureGroups(source: string): number {
+  return new RegExp(`${source}|`).exec('')!.length - 1
+}
+
+// Anchors only make sense for the whole value, so they are dropped when a
+// regex is embedded in the line pattern and checked again on the value
+function stripAnchors(source: string): string {
+  let stripped = source.startsWith('^') ? source.slice(1) : source
+  if (stripped.endsWith('$') && !stripped.endsWith('\\$')) {
+    stripped = stripped.slice(0, -1)
+  }
+  return stripped
+}
+
 export class PatternMatcher {
   private patterns: Map<string, CompiledPattern> = new Map()
   private previousMatch: MatchResult | null = null
   private logAllMatches: boolean = false
+  // Line match results for viewport rows, reused while a row's text is
+  // unchanged
+  private rowCache: Map<number, RowCacheEntry> = new Map()
+  private patternsChanged: boolean = true
 
   constructor(logAllMatches: boolean = false) {
     this.logAllMatches = logAllMatches
@@ -51,17 +97,61 @@ export class PatternMatcher {
   }
 
   // Utility methods for placeholder parsing
-  private parsePlaceholder(content: string): {
-    name: string
-    type: PlaceholderType
-  } {
-    if (content.includes('|')) {
-      const parts = content.split('|').map(p => p.trim())
-      const name = parts[0]
-      const type = parts[1] === 'multiline' ? 'multiline' : 'simple'
-      return { name, type }
-    }
-    return { name: content, type: 'simple' }
+  private parsePlaceholder(
+    content: string,
+  ): Omit<PlaceholderInfo, 'start' | 'end'> {
+    const info: Omit<PlaceholderInfo, 'start' | 'end'> = {
+      name: content,
+      type: 'simple',
+      valueType: 'text',
+      optional: false,
+    }
+
+    const separatorIndex = content.indexOf('|')
+    if (separatorIndex === -1) {
+      return info
+    }
+
+    info.name = content.substring(0, separatorIndex).trim()
+    let rest = content.substring(separatorIndex + 1)
+
+    while (rest.length > 0) {
+      const trimmed = rest.trimStart()
+
+      // A regex filter takes the rest of the placeholder, including any |
+      if (trimmed.startsWith('regex:')) {
+        info.valueType = 'regex'
+        info.regexSource = trimmed.substring('regex:'.length).trim()
+        info.valueRegex = new RegExp(info.regexSource)
+        break
+      }
+
+      const nextSeparator = rest.indexOf('|')
+      const filter = (
+        nextSeparator === -1 ? rest : rest.substring(0, nextSeparator)
+      ).trim()
+      rest = nextSeparator === -1 ? '' : rest.substring(nextSeparator + 1)
+
+      switch (filter) {
+        case 'multiline':
+          info.type = 'multiline'
+          break
+        case 'optional':
+          info.optional = true
+          break
+        case 'int':
+        case 'path':
+        case 'url':
+          info.valueType = filter
+          break
+        default:
+          throw new Error(
+            `Unknown placeholder filter "${filter}" in {{ ${content} }}`,
+          )
+      }
+    }
+
+    return info
   }
 
   private extractPlaceholders(pattern: string): PlaceholderInfo[] {
@@ -73,11 +163,9 @@ export class PatternMatcher {
 
     while ((match = regex.exec(pattern)) !== null) {
       const content = match[1].trim()
-      const { name, type } = this.parsePlaceholder(content)
 
       placeholders.push({
-        name,
-        type,
+        ...this.parsePlaceholder(content),
         start: match.index,
         end: match.index + match[0].length,
       })
@@ -86,15 +174,43 @@ export class PatternMatcher {
     return placeholders
   }
 
-  private hasMultilinePlaceholder(pattern: string): boolean {
-    const placeholders = this.extractPlaceholders(pattern)
-    return placeholders.some(p => p.type === 'multiline')
+  private getPlaceholderCapture(placeholder: PlaceholderInfo): string {
+    const source =
+      placeholder.valueType === 'regex'
+        ? stripAnchors(placeholder.regexSource || '')
+        : VALUE_TYPE_PATTERNS[placeholder.valueType]
+    return placeholder.optional ? `(${source})?` : `(${source})`
   }
 
-  private getMultilinePlaceholderName(pattern: string): string | null {
-    const placeholders = this.extractPlaceholders(pattern)
-    const multiline = placeholders.find(p => p.type === 'multiline')
-    return multiline ? multiline.name : null
+  /**
+   * Check a captured value against its placeholder and convert it to its
+   * canonical form. Returns null when the value is not acceptable.
+   */
+  private coercePlaceholderValue(
+    placeholder: PlaceholderInfo,
+    value: string,
+  ): string | null {
+    switch (placeholder.valueType) {
+      case 'int':
+        return String(Number.parseInt(value, 10))
+      case 'path':
+        return value.replace(/^(['"`])(.*)\1$/, '$2')
+      case 'url': {
+        const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value)
+          ? value
+          : `https://${value}`
+        try {
+          new URL(withScheme)
+          return value
+        } catch {
+          return null
+        }
+      }
+      case 'regex':
+        return placeholder.valueRegex!.test(value) ? value : null
+      default:
+        return value
+    }
   }
 
   addPattern(config: PatternConfig): void {
@@ -102,12 +218,15 @@ export class PatternMatcher {
       throw new Error(`Pattern ${config.id} is missing required title field`)
     }
 
+    // Compiling surfaces unknown filters and invalid regexes up front
     const compiled = this.compilePattern(config)
     this.patterns.set(config.id, compiled)
+    this.patternsChanged = true
   }
 
   removePattern(id: string): void {
     this.patterns.delete(id)
+    this.patternsChanged = true
   }
 
   processData(data: string): MatchResult[] {
@@ -119,18 +238,109 @@ export class PatternMatcher {
     return this.processDataInternal(data)
   }
 
-  private processDataInternal(data: string): MatchResult[] {
+  /**
+   * Match against the rows on screen. Matches that end above the active
+   * prompt box are ignored, and a match only repeats when it is found at a
+   * different position in the buffer. Rows whose text hasn't changed reuse
+   * their line match results, and nothing is re-evaluated when no rows have
+   * changed since the last call.
+   */
+  processViewport(viewport: TerminalViewport): MatchResult[] {
+    if (viewport.dirtyRegion === null && !this.patternsChanged) {
+      return []
+    }
+    this.patternsChanged = false
+
+    const endRow = viewport.startRow + viewport.lines.length
+    for (const row of this.rowCache.keys()) {
+      if (row < viewport.startRow || row >= endRow) {
+        this.rowCache.delete(row)
+      }
+    }
+
+    return this.processDataInternal(viewport.lines.join('\n'), viewport)
+  }
+
+  getPatternsForTrigger(triggerText: string): PatternConfig[] {
+    return Array.from(this.patterns.values())
+      .filter(pattern => pattern.config.triggerText === triggerText)
+      .map(pattern => pattern.config)
+  }
+
+  /**
+   * Whether the full sequence of any of the given patterns is on screen, down
+   * to its last line. Used to tell when a prompt has finished rendering, so
+   * nothing is recorded for deduplication.
+   */
+  isRendered(viewport: TerminalViewport, patternIds: string[]): boolean {
+    return patternIds.some(
+      id => this.findFirstBufferRow(viewport, id) !== undefined,
+    )
+  }
+
+  /**
+   * Whether a match from an earlier viewport is still on screen, i.e. its
+   * prompt hasn't been dismissed yet. The rows it covered must show the same
+   * text, so a new prompt of the same kind drawn in its place doesn't count,
+   * and the pattern doesn't need to be active any more.
+   */
+  isMatchOnScreen(viewport: TerminalViewport, match: MatchResult): boolean {
+    if (
+      match.firstBufferRow === undefined ||
+      match.lastBufferRow === undefined
+    ) {
+      return false
+    }
+
+    const first = match.firstBufferRow - viewport.startRow
+    const last = match.lastBufferRow - viewport.startRow
+    if (first < 0 || last >= viewport.lines.length) {
+      return false
+    }
+
+    return (
+      stripAnsi(viewport.lines.slice(first, last + 1).join('\n')) ===
+      stripAnsi(match.fullMatchedContent)
+    )
+  }
+
+  private findFirstBufferRow(
+    viewport: TerminalViewport,
+    patternId: string,
+  ): number | undefined {
+    const pattern = this.patterns.get(patternId)
+    if (!pattern) {
+      return undefined
+    }
+
+    const content = viewport.lines.join('\n')
+    const sequenceMatch = this.matchSequence(
+      pattern.hasAnsiPattern ? content : stripAnsi(content),
+      pattern,
+      pattern.hasAnsiPattern ? undefined : viewport.startRow,
+    )
+    return sequenceMatch
+      ? viewport.startRow + sequenceMatch.firstLineNumber
+      : undefined
+  }
+
+  private processDataInternal(
+    data: string,
+    viewport?: TerminalViewport,
+  ): MatchResult[] {
     const content = data
     const strippedContent = stripAnsi(content)
     const allMatches: MatchResult[] = []
 
     for (const [id, pattern] of this.patterns) {
-      const hasAnsiPattern = pattern.sequence.some(p =>
-        this.containsAnsiSequence(p),
-      )
-      const contentToMatch = hasAnsiPattern ? content : strippedContent
+      const contentToMatch = pattern.hasAnsiPattern ? content : strippedContent
 
-      const sequenceMatch = this.matchSequence(contentToMatch, pattern.sequence)
+      const sequenceMatch = this.matchSequence(
+        contentToMatch,
+        pattern,
+        // Cached rows only hold results for the text as displayed
+        viewport && !pattern.hasAnsiPattern ? viewport.startRow : undefined,
+      )
 
       if (sequenceMatch) {
         const response =
@@ -156,15 +366,30 @@ export class PatternMatcher {
           strippedBufferContent: strippedContent,
           extractedData,
           notification: pattern.config.notification,
+          firstBufferRow: viewport
+            ? viewport.startRow + sequenceMatch.firstLineNumber
+            : undefined,
+          lastBufferRow: viewport
+            ? viewport.startRow + sequenceMatch.lastLineNumber
+            : undefined,
         })
       }
     }
 
-    if (allMatches.length === 0) {
+    // Prompts are answered in the box at the bottom of the screen, so a match
+    // that ends above that box is left over from earlier output
+    const promptRegion = viewport?.promptRegion
+    const currentMatches = promptRegion
+      ? allMatches.filter(
+          match => match.lastBufferRow! >= promptRegion.startRow,
+        )
+      : allMatches
+
+    if (currentMatches.length === 0) {
       return []
     }
 
-    const bottomMostMatch = allMatches.reduce((bottomMost, current) =>
+    const bottomMostMatch = currentMatches.reduce((bottomMost, current) =>
       current.lastLineNumber > bottomMost.lastLineNumber ? current : bottomMost,
     )
 
@@ -176,7 +401,8 @@ export class PatternMatcher {
       !isSelfClearing &&
       this.previousMatch &&
       this.previousMatch.fullMatchedContent ===
-        bottomMostMatch.fullMatchedContent
+        bottomMostMatch.fullMatchedContent &&
+      this.previousMatch.firstBufferRow === bottomMostMatch.firstBufferRow
     ) {
       return []
     }
@@ -191,19 +417,70 @@ export class PatternMatcher {
   }
 
   private compilePattern(config: PatternConfig): CompiledPattern {
+    const sequence = config.pattern || []
     return {
-      sequence: config.pattern || [],
+      sequence,
+      lines: sequence.map(pattern => this.compileLine(pattern)),
+      hasAnsiPattern: sequence.some(pattern =>
+        this.containsAnsiSequence(pattern),
+      ),
       config,
     }
   }
 
+  private compileLine(sequencePattern: string): CompiledLine {
+    const modifierMatch = sequencePattern.match(SEQUENCE_MODIFIER_REGEX)
+    const pattern = modifierMatch
+      ? sequencePattern.substring(modifierMatch[0].length)
+      : sequencePattern
+    const placeholders = this.extractPlaceholders(pattern)
+    const multiline = placeholders.find(p => p.type === 'multiline')
+
+    const compiled: CompiledLine = {
+      pattern,
+      kind: multiline ? 'multiline' : 'line',
+      constraint: 'any',
+      multilineName: multiline?.name,
+      placeholders,
+      groupIndexes: [],
+    }
+
+    if (modifierMatch?.[1] === 'not') {
+      compiled.kind = 'negative'
+    } else if (modifierMatch) {
+      compiled.kind = 'line'
+      compiled.constraint = modifierMatch[1] === 'next' ? 'next' : 'within'
+      compiled.within = modifierMatch[2] ? Number(modifierMatch[2]) : undefined
+    }
+
+    if (placeholders.length > 0) {
+      let regexPattern = ''
+      let lastEnd = 0
+      let groupIndex = 1
+
+      for (const placeholder of placeholders) {
+        const capture = this.getPlaceholderCapture(placeholder)
+        regexPattern +=
+          escapeRegExp(pattern.substring(lastEnd, placeholder.start)) + capture
+        compiled.groupIndexes.push(groupIndex)
+        groupIndex += countCaptureGroups(capture)
+        lastEnd = placeholder.end
+      }
+      regexPattern += escapeRegExp(pattern.substring(lastEnd))
+      compiled.regex = new RegExp(regexPattern)
+    }
+
+    return compiled
+  }
+
   private containsAnsiSequence(text: string): boolean {
     return /\x1b\[[0-9;]*m/.test(text)
   }
 
   private matchSequence(
     content: string,
-    sequence: string[],
+    compiledPattern: CompiledPattern,
+    startRow?: number,
   ): {
     text: string
     firstLineNumber: number
@@ -211,7 +488,8 @@ export class PatternMatcher {
     fullMatchedContent: string
     extractedData?: Record<string, string>
   } | null {
-    if (sequence.length === 0) {
+    const compiledLines = compiledPattern.lines
+    if (compiledLines.length === 0) {
       // For patterns with no sequence, match the entire content
       const lines = content.split('\n')
       return {
@@ -224,49 +502,33 @@ export class PatternMatcher {
     }
     const lines = content.split('\n')
 
-    const matchedLines: MatchedLine[] = []
-
-    let startSearchFrom = 0
-
-    for (let patternIndex = 0; patternIndex < sequence.length; patternIndex++) {
-      const pattern = sequence[patternIndex]
-
-      if (this.isMultilinePlaceholderPattern(pattern)) {
-        matchedLines.push({
-          lineIndex: -1, // Will be filled in later
-          patternIndex,
-          lineResult: { matches: true, extractedData: {} },
-          isMultilinePlaceholder: true,
-        })
-        continue
-      }
-
-      let found = false
-
-      for (
-        let lineIndex = startSearchFrom;
-        lineIndex < lines.length;
-        lineIndex++
-      ) {
-        const line = lines[lineIndex]
-        const matchResult = this.matchLineWithPlaceholders(line, pattern)
+    if (!compiledLines.some(compiledLine => compiledLine.kind === 'line')) {
+      return null
+    }
 
-        if (matchResult.matches) {
-          matchedLines.push({
-            lineIndex,
-            patternIndex,
-            lineResult: matchResult,
-            isMultilinePlaceholder: false,
-          })
-          startSearchFrom = lineIndex + 1
-          found = true
-          break
-        }
-      }
+    const matchLine: LineMatcher = (lineIndex, compiledLine) =>
+      startRow === undefined
+        ? this.matchLine(lines[lineIndex], compiledLine)
+        : this.matchRow(startRow + lineIndex, lines[lineIndex], compiledLine)
+
+    // Prefer the match that starts lowest in the buffer so that prompts left
+    // in scrollback don't shadow the one currently on screen
+    let matchedLines: MatchedLine[] | null = null
+    for (
+      let startLine = lines.length - 1;
+      startLine >= 0 && !matchedLines;
+      startLine--
+    ) {
+      matchedLines = this.matchSequenceFrom(
+        lines.length,
+        compiledLines,
+        startLine,
+        matchLine,
+      )
+    }
 
-      if (!found) {
-        return null
-      }
+    if (!matchedLines) {
+      return null
     }
 
     const extractedData: Record<string, string> = {}
@@ -284,10 +546,9 @@ export class PatternMatcher {
 
         Object.assign(extractedData, match.lineResult.extractedData)
       } else {
-        const pattern = sequence[match.patternIndex]
-        const multilinePlaceholderInfo = this.parseMultilinePlaceholder(pattern)
+        const multilineName = compiledLines[match.patternIndex].multilineName
 
-        if (multilinePlaceholderInfo) {
+        if (multilineName) {
           const prevMatch = this.findPreviousConcreteMatch(matchedLines, i)
           const nextMatch = this.findNextConcreteMatch(matchedLines, i)
 
@@ -299,25 +560,25 @@ export class PatternMatcher {
               const capturedContent = lines
                 .slice(startLine, endLine + 1)
                 .join('\n')
-              extractedData[multilinePlaceholderInfo.name] = capturedContent
+              extractedData[multilineName] = capturedContent
             } else {
-              extractedData[multilinePlaceholderInfo.name] = ''
+              extractedData[multilineName] = ''
             }
           } else if (prevMatch !== null && nextMatch === null) {
             const startLine = prevMatch.lineIndex + 1
             if (startLine < lines.length) {
               const capturedContent = lines.slice(startLine).join('\n')
-              extractedData[multilinePlaceholderInfo.name] = capturedContent
+              extractedData[multilineName] = capturedContent
             } else {
-              extractedData[multilinePlaceholderInfo.name] = ''
+              extractedData[multilineName] = ''
             }
           } else if (prevMatch === null && nextMatch !== null) {
             const endLine = nextMatch.lineIndex - 1
             if (endLine >= 0) {
               const capturedContent = lines.slice(0, endLine + 1).join('\n')
-              extractedData[multilinePlaceholderInfo.name] = capturedContent
+              extractedData[multilineName] = capturedContent
             } else {
-              extractedData[multilinePlaceholderInfo.name] = ''
+              extractedData[multilineName] = ''
             }
           }
         }
@@ -341,76 +602,167 @@ export class PatternMatcher {
     }
   }
 
-  private matchLineWithPlaceholders(
-    line: string,
-    pattern: string,
-  ): LineMatchResult {
-    const extractedData: Record<string, string> = {}
-    const placeholders = this.extractPlaceholders(pattern)
+  /**
+   * Match a sequence with its first line at `startLine`. Each following line
+   * is matched at the earliest position its constraint allows, and negative
+   * lines must not appear between the lines around them.
+   */
+  private matchSequenceFrom(
+    lineCount: number,
+    compiledLines: CompiledLine[],
+    startLine: number,
+    matchLine: LineMatcher,
+  ): MatchedLine[] | null {
+    const matchedLines: MatchedLine[] = []
+    let previousLineIndex = -1
 
-    if (placeholders.length === 0) {
-      return {
-        matches: line.includes(pattern),
-        extractedData: {},
+    for (
+      let patternIndex = 0;
+      patternIndex < compiledLines.length;
+      patternIndex++
+    ) {
+      const compiledLine = compiledLines[patternIndex]
+
+      if (compiledLine.kind === 'negative') {
+        continue
       }
-    }
 
-    let regexPattern = pattern
+      if (compiledLine.kind === 'multiline') {
+        matchedLines.push({
+          lineIndex: -1, // Will be filled in later
+          patternIndex,
+          lineResult: { matches: true, extractedData: {} },
+          isMultilinePlaceholder: true,
+        })
+        continue
+      }
 
-    for (let i = placeholders.length - 1; i >= 0; i--) {
-      const placeholder = placeholders[i]
-      const before = regexPattern.substring(0, placeholder.start)
-      const after = regexPattern.substring(placeholder.end)
-      regexPattern = before + PLACEHOLDER_MARKER + after
-    }
+      let searchFrom = startLine
+      let searchTo = startLine
+      if (previousLineIndex !== -1) {
+        searchFrom = previousLineIndex + 1
+        searchTo =
+          compiledLine.constraint === 'next'
+            ? previousLineIndex + 1
+            : compiledLine.constraint === 'within'
+              ? previousLineIndex + compiledLine.within!
+              : lineCount - 1
+      }
 
-    regexPattern = regexPattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      let found = false
 
-    regexPattern = regexPattern.replace(
-      new RegExp(
-        PLACEHOLDER_MARKER.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
-        'g',
-      ),
-      '(.*)',
-    )
+      for (
+        let lineIndex = searchFrom;
+        lineIndex <= Math.min(searchTo, lineCount - 1);
+        lineIndex++
+      ) {
+        const matchResult = matchLine(lineIndex, compiledLine)
 
-    try {
-      const regex = new RegExp(regexPattern)
-      const lineMatch = line.match(regex)
+        if (matchResult.matches) {
+          matchedLines.push({
+            lineIndex,
+            patternIndex,
+            lineResult: matchResult,
+            isMultilinePlaceholder: false,
+          })
+          previousLineIndex = lineIndex
+          found = true
+          break
+        }
+      }
 
-      if (lineMatch) {
-        const originalOrderPlaceholders = [...placeholders].sort(
-          (a, b) => a.start - b.start,
-        )
-        originalOrderPlaceholders.forEach((placeholder, index) => {
-          extractedData[placeholder.name] = lineMatch[index + 1] || ''
-        })
+      if (!found) {
+        return null
+      }
+    }
 
-        return {
-          matches: true,
-          extractedData,
+    for (
+      let patternIndex = 0;
+      patternIndex < compiledLines.length;
+      patternIndex++
+    ) {
+      const compiledLine = compiledLines[patternIndex]
+      if (compiledLine.kind !== 'negative') {
+        continue
+      }
+
+      const concreteMatches = matchedLines.filter(
+        match => !match.isMultilinePlaceholder,
+      )
+      const previousMatch = concreteMatches
+        .filter(match => match.patternIndex < patternIndex)
+        .pop()
+      const nextMatch = concreteMatches.find(
+        match => match.patternIndex > patternIndex,
+      )
+      const from = previousMatch ? previousMatch.lineIndex + 1 : 0
+      const to = nextMatch ? nextMatch.lineIndex - 1 : lineCount - 1
+
+      for (let lineIndex = from; lineIndex <= to; lineIndex++) {
+        if (matchLine(lineIndex, compiledLine).matches) {
+          return null
         }
       }
-    } catch (error) {
+    }
+
+    return matchedLines
+  }
+
+  private matchRow(
+    row: number,
+    line: string,
+    compiledLine: CompiledLine,
+  ): LineMatchResult {
+    let entry = this.rowCache.get(row)
+    if (!entry || entry.text !== line) {
+      entry = { text: line, results: new Map() }
+      this.rowCache.set(row, entry)
+    }
+
+    let result = entry.results.get(compiledLine)
+    if (!result) {
+      result = this.matchLine(line, compiledLine)
+      entry.results.set(compiledLine, result)
+    }
+    return result
+  }
+
+  private matchLine(line: string, compiledLine: CompiledLine): LineMatchResult {
+    if (!compiledLine.regex) {
       return {
-        matches: line.includes(pattern.replace(/\{\{\s*\w+\s*\}\}/g, '')),
+        matches: line.includes(compiledLine.pattern),
         extractedData: {},
       }
     }
 
-    return {
-      matches: false,
-      extractedData: {},
+    const lineMatch = line.match(compiledLine.regex)
+    if (!lineMatch) {
+      return {
+        matches: false,
+        extractedData: {},
+      }
     }
-  }
 
-  private isMultilinePlaceholderPattern(pattern: string): boolean {
-    return this.hasMultilinePlaceholder(pattern)
-  }
+    const extractedData: Record<string, string> = {}
+    for (let i = 0; i < compiledLine.placeholders.length; i++) {
+      const placeholder = compiledLine.placeholders[i]
+      const value = lineMatch[compiledLine.groupIndexes[i]]
+
+      if (value === undefined && placeholder.optional) {
+        continue
+      }
+
+      const coerced = this.coercePlaceholderValue(placeholder, value || '')
+      if (coerced === null) {
+        return { matches: false, extractedData: {} }
+      }
+      extractedData[placeholder.name] = coerced
+    }
 
-  private parseMultilinePlaceholder(pattern: string): { name: string } | null {
-    const name = this.getMultilinePlaceholderName(pattern)
-    return name ? { name } : null
+    return {
+      matches: true,
+      extractedData,
+    }
   }
 
   private findPreviousConcreteMatch(
@@ -476,9 +828,33 @@ export class PatternMatcher {
 
 interface CompiledPattern {
   sequence: string[]
+  lines: CompiledLine[]
+  hasAnsiPattern: boolean
   config: PatternConfig
 }
 
+interface CompiledLine {
+  pattern: string
+  kind: 'line' | 'multiline' | 'negative'
+  constraint: 'any' | 'next' | 'within'
+  within?: number
+  multilineName?: string
+  placeholders: PlaceholderInfo[]
+  // Without placeholders a line matches when it contains the pattern text
+  regex?: RegExp
+  groupIndexes: number[]
+}
+
+interface RowCacheEntry {
+  text: string
+  results: Map<CompiledLine, LineMatchResult>
+}
+
+type LineMatcher = (
+  lineIndex: number,
+  compiledLine: CompiledLine,
+) => LineMatchResult
+
 interface LineMatchResult {
   matches: boolean
   extractedData: Record<string, string>
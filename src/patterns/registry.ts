@@ -1,6 +1,9 @@
 import {
   type PatternConfig,
+  type PatternFileEntry,
   type AppConfig,
+  type ResponseStep,
+  type Mode,
   validatePatternConfigs,
 } from '../config/schemas'
 import { execSync } from 'child_process'
@@ -114,11 +117,12 @@ const confirmationPatterns: PatternConfig[] = [
     response: '1',
     pattern: [
       'Bash command',
+      '[not] Bash command',
       '{{ body | multiline }}',
       'Do you want to proceed',
-      '1. Yes',
-      "2. Yes, and don't ask again for {{ commandBase }} in {{ directory }}",
-      '3. No',
+      '[within 2] 1. Yes',
+      "[next] 2. Yes, and don't ask again for {{ commandBase }} in {{ directory }}",
+      '[next] 3. No',
     ],
     triggerText: 'Bash command',
     notification: dedent(
@@ -138,10 +142,11 @@ const confirmationPatterns: PatternConfig[] = [
     response: '1',
     pattern: [
       'Bash command',
+      '[not] Bash command',
       '{{ body | multiline }}',
       'Do you want to proceed',
-      '1. Yes',
-      '2. No',
+      '[within 2] 1. Yes',
+      '[next] 2. No',
     ],
     triggerText: 'Bash command',
     notification: dedent(
@@ -176,8 +181,8 @@ const confirmationPatterns: PatternConfig[] = [
     pattern: [
       'Fetch',
       '{{ emptyLine }}',
-      '{{ url }}',
-      'Claude wants to fetch content from {{ domain }}',
+      '{{ url | url }}',
+      'Claude wants to fetch content from {{ domain | regex:^[\\w.-]+$ }}',
       'No, and tell Claude what to do differently',
     ],
     triggerText: 'Fetch',
@@ -192,40 +197,48 @@ const confirmationPatterns: PatternConfig[] = [
   },
 ]
 
+// The shortcuts hint is hidden once the input has text in it
+const INPUT_RECEIVED_STEP: ResponseStep = {
+  waitForGone: '? for shortcuts',
+  timeout: 3000,
+}
+
+/**
+ * Type a prompt into the input box and submit it, optionally switching mode
+ * first
+ */
+export function createSubmitPromptResponse(
+  content: string,
+  mode?: Mode,
+): ResponseStep[] {
+  return [
+    { text: content },
+    INPUT_RECEIVED_STEP,
+    ...(mode ? [{ mode }] : []),
+    { key: 'enter' },
+  ]
+}
+
 export function createAppReadyPattern(
-  getAppConfig: () => { positionalArgContentPath?: string; mode?: string },
+  getAppConfig: () => { positionalArgContentPath?: string; mode?: Mode },
 ): PatternConfig {
-  const getAppReadyResponse = (): string[] | undefined => {
+  const getAppReadyResponse = (): ResponseStep[] | undefined => {
     const config = getAppConfig()
     const positionalArgContentPath = config.positionalArgContentPath
 
-    // If plan mode is enabled, send SHIFT+TAB twice first
-    if (config.mode === 'plan') {
-      if (positionalArgContentPath && fs.existsSync(positionalArgContentPath)) {
-        try {
-          const content = fs
-            .readFileSync(positionalArgContentPath, 'utf8')
-            .trimEnd()
-          return content
-            ? [content, 400, '\x1b[Z', 400, '\x1b[Z', 500, '\r']
-            : ['\x1b[Z', 400, '\x1b[Z']
-        } catch (error) {}
-      }
-      // Even without positional arg content, send SHIFT+TAB in plan mode
-      return ['\x1b[Z', 400, '\x1b[Z']
+    let content = ''
+    if (positionalArgContentPath && fs.existsSync(positionalArgContentPath)) {
+      try {
+        content = fs.readFileSync(positionalArgContentPath, 'utf8').trimEnd()
+      } catch (error) {}
     }
 
-    // Normal positional arg injection mode (no plan mode)
-    if (!positionalArgContentPath || !fs.existsSync(positionalArgContentPath)) {
-      return
+    if (!content) {
+      return config.mode ? [{ mode: config.mode }] : undefined
     }
 
-    try {
-      const content = fs
-        .readFileSync(positionalArgContentPath, 'utf8')
-        .trimEnd()
-      return content ? [content, 500, '\r'] : undefined
-    } catch (error) {}
+    // Switch to the requested mode before submitting
+    return createSubmitPromptResponse(content, config.mode)
   }
 
   return {
@@ -276,6 +289,30 @@ export function createTrustPromptPattern(
   }
 }
 
+/**
+ * Merge patterns loaded from pattern files into a list of patterns. Entries
+ * with a known id are merged over the existing pattern, so an override can
+ * change the prompt text and keep the built-in response and data transforms.
+ * Entries with a new id are added at the end.
+ */
+export function mergePatterns(
+  basePatterns: PatternConfig[],
+  entries: PatternFileEntry[],
+): PatternConfig[] {
+  const merged = [...basePatterns]
+
+  for (const entry of entries) {
+    const index = merged.findIndex(pattern => pattern.id === entry.id)
+    if (index === -1) {
+      merged.push(entry as PatternConfig)
+    } else {
+      merged[index] = { ...merged[index], ...entry }
+    }
+  }
+
+  return merged
+}
+
 const allPatterns: PatternConfig[] = [...confirmationPatterns]
 
 const validationResult = validatePatternConfigs(allPatterns)
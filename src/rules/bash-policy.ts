@@ -0,0 +1,488 @@
+import type { MatchResult } from '../patterns/matcher'
+import type { AppConfig, PromptAction } from '../config/schemas'
+
+export const BASH_PROMPT_PATTERN_IDS = [
+  'bash-command-prompt-format-1',
+  'bash-command-prompt-format-2',
+] as const
+
+function findClosingParen(input: string, openIndex: number): number {
+  let depth = 0
+  let i = openIndex
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (char === '\\') {
+      i += 2
+      continue
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      const end = input.indexOf(char, i + 1)
+      if (end === -1) {
+        throw new Error(`Unterminated ${char} in command`)
+      }
+      i = end + 1
+      continue
+    }
+
+    if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+      if (depth === 0) {
+        return i
+      }
+    }
+    i++
+  }
+
+  throw new Error('Unterminated ( in command')
+}
+
+function parseCommandSequence(input: string): string[][] {
+  const commands: string[][] = []
+  let argv: string[] = []
+  let token = ''
+  let inToken = false
+  let i = 0
+
+  const endToken = () => {
+    if (inToken) {
+      argv.push(token)
+      token = ''
+      inToken = false
+    }
+  }
+
+  const endCommand = () => {
+    endToken()
+    if (argv.length > 0) {
+      commands.push(argv)
+    }
+    argv = []
+  }
+
+  // Parse the inner commands of $(...), `...` or (...) and keep the raw text
+  const consumeNested = (start: number, innerStart: number, end: number) => {
+    commands.push(...parseCommandSequence(input.slice(innerStart, end)))
+    return input.slice(start, end + 1)
+  }
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (char === '\n') {
+      endCommand()
+      i++
+      continue
+    }
+
+    if (/\s/.test(char)) {
+      endToken()
+      i++
+      continue
+    }
+
+    if (char === '#' && !inToken) {
+      const newline = input.indexOf('\n', i)
+      i = newline === -1 ? input.length : newline
+      continue
+    }
+
+    if (char === '\\') {
+      token += input[i + 1] ?? ''
+      inToken = true
+      i += 2
+      continue
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1)
+      if (end === -1) {
+        throw new Error("Unterminated ' in command")
+      }
+      token += input.slice(i + 1, end)
+      inToken = true
+      i = end + 1
+      continue
+    }
+
+    if (char === '"') {
+      inToken = true
+      i++
+      while (true) {
+        if (i >= input.length) {
+          throw new Error('Unterminated " in command')
+        }
+        const quoted = input[i]
+        if (quoted === '"') {
+          i++
+          break
+        }
+        if (quoted === '\\' && '"\\$`'.includes(input[i + 1] ?? '')) {
+          token += input[i + 1]
+          i += 2
+        } else if (quoted === '$' && input[i + 1] === '(') {
+          const end = findClosingParen(input, i + 1)
+          token += consumeNested(i, i + 2, end)
+          i = end + 1
+        } else if (quoted === '`') {
+          const end = input.indexOf('`', i + 1)
+          if (end === -1) {
+            throw new Error('Unterminated ` in command')
+          }
+          token += consumeNested(i, i + 1, end)
+          i = end + 1
+        } else {
+          token += quoted
+          i++
+        }
+      }
+      continue
+    }
+
+    if (char === '$' && input[i + 1] === '(') {
+      const end = findClosingParen(input, i + 1)
+      token += consumeNested(i, i + 2, end)
+      inToken = true
+      i = end + 1
+      continue
+    }
+
+    if (char === '`') {
+      const end = input.indexOf('`', i + 1)
+      if (end === -1) {
+        throw new Error('Unterminated ` in command')
+      }
+      token += consumeNested(i, i + 1, end)
+      inToken = true
+      i = end + 1
+      continue
+    }
+
+    if (char === '(') {
+      const end = findClosingParen(input, i)
+      if (inToken) {
+        // Process substitution such as <(ls)
+        token += consumeNested(i, i + 1, end)
+      } else {
+        // Subshell group runs as its own command sequence
+        endCommand()
+        consumeNested(i, i + 1, end)
+      }
+      i = end + 1
+      continue
+    }
+
+    if (char === ')') {
+      throw new Error('Unexpected ) in command')
+    }
+
+    // Redirections like 2>&1 and &> belong to the current token
+    if (
+      char === '&' &&
+      (token.endsWith('>') || token.endsWith('<') || input[i + 1] === '>')
+    ) {
+      token += char
+      inToken = true
+      i++
+      continue
+    }
+
+    if (char === '|' || char === '&' || char === ';') {
+      endCommand()
+      i++
+      continue
+    }
+
+    token += char
+    inToken = true
+    i++
+  }
+
+  endCommand()
+  return commands
+}
+
+/**
+ * Split a shell command into the argv of every simple command it runs,
+ * including commands joined by pipes, `&&`, `||` and `;` and commands inside
+ * subshells and command substitutions. Returns null when the command cannot
+ * be parsed.
+ */
+export function splitCommand(command: string): string[][] | null {
+  try {
+    return parseCommandSequence(command)
+  } catch {
+    return null
+  }
+}
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/
+// Redirections that don't write to a file, such as 2>&1 and 2>/dev/null
+const FD_DUPLICATION = /^\d*>&(\d+|-)$/
+const NULL_REDIRECTION = /^(\d*|&)>>?\/dev\/null$/
+const REDIRECTION_OPERATOR = /^(\d*|&)>>?$/
+
+// Commands that run the rest of their arguments as a command, with the
+// options that take a value in the next argument
+const COMMAND_WRAPPERS: Record<string, string[]> = {
+  builtin: [],
+  command: [],
+  env: ['-u', '--unset', '-C', '--chdir'],
+  exec: ['-a'],
+  nice: ['-n', '--adjustment'],
+  nohup: [],
+  sudo: [
+    '-C',
+    '--close-from',
+    '-D',
+    '--chdir',
+    '-g',
+    '--group',
+    '-h',
+    '--host',
+    '-p',
+    '--prompt',
+    '-r',
+    '--role',
+    '-t',
+    '--type',
+    '-T',
+    '--command-timeout',
+    '-U',
+    '--other-user',
+    '-u',
+    '--user',
+  ],
+  time: ['-f', '--format', '-o', '--output'],
+  timeout: ['-k', '--kill-after', '-s', '--signal'],
+  xargs: [
+    '-a',
+    '--arg-file',
+    '-d',
+    '--delimiter',
+    '-E',
+    '-I',
+    '-L',
+    '-n',
+    '--max-args',
+    '-P',
+    '--max-procs',
+    '-s',
+    '--max-chars',
+  ],
+}
+
+// Redirections that don't write to a file are left out when matching
+function withoutHarmlessRedirections(argv: string[]): string[] {
+  return argv.filter((arg, i) => {
+    if (FD_DUPLICATION.test(arg) || NULL_REDIRECTION.test(arg)) {
+      return false
+    }
+    if (REDIRECTION_OPERATOR.test(arg) && argv[i + 1] === '/dev/null') {
+      return false
+    }
+    return !(arg === '/dev/null' && REDIRECTION_OPERATOR.test(argv[i - 1]))
+  })
+}
+
+/**
+ * The command a simple command actually runs: leading variable assignments
+ * and wrappers such as `env`, `sudo` and `xargs` are dropped, as are
+ * redirections that don't write to a file. Returns null when the wrapped command can't be
+ * told apart from the wrapper's arguments.
+ */
+export function normalizeCommand(argv: string[]): string[] | null {
+  let args = withoutHarmlessRedirections(argv)
+
+  while (args.length > 0) {
+    if (ASSIGNMENT.test(args[0])) {
+      args = args.slice(1)
+    } else if (Object.hasOwn(COMMAND_WRAPPERS, args[0])) {
+      const wrapper = args[0]
+      let i = 1
+      while (i < args.length && args[i].startsWith('-')) {
+        if (args[i] === '--') {
+          i++
+          break
+        }
+        if (
+          wrapper === 'env' &&
+          ['-S', '--split-string'].includes(args[i].split('=')[0])
+        ) {
+          return null
+        }
+        i += COMMAND_WRAPPERS[wrapper].includes(args[i]) ? 2 : 1
+      }
+      // timeout takes the duration before the command
+      if (wrapper === 'timeout') {
+        i++
+      }
+      args = args.slice(i)
+    } else {
+      break
+    }
+  }
+
+  return args
+}
+
+/**
+ * Whether a simple command redirects output to a file. Quoted text containing
+ * `>` also counts, erring on the side of asking.
+ */
+export function writesToFile(argv: string[]): boolean {
+  return normalizeCommand(argv)?.some(arg => arg.includes('>')) ?? true
+}
+
+function matchesToken(arg: string, ruleToken: string): boolean {
+  if (!ruleToken.includes('*')) {
+    return arg === ruleToken
+  }
+
+  const regexPattern = ruleToken
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${regexPattern}$`).test(arg)
+}
+
+/**
+ * Match a single command against a rule. Rules wrapped in slashes are
+ * regular expressions tested against the space-joined argv. Other rules are
+ * compared argument by argument, where `*` matches within one argument and a
+ * trailing `*` matches any remaining arguments.
+ */
+export function matchesCommandRule(argv: string[], rule: string): boolean {
+  const trimmedRule = rule.trim()
+
+  if (isRegexRule(trimmedRule)) {
+    try {
+      return new RegExp(trimmedRule.slice(1, -1)).test(argv.join(' '))
+    } catch {
+      return false
+    }
+  }
+
+  const ruleCommands = splitCommand(trimmedRule)
+  if (!ruleCommands || ruleCommands.length !== 1) {
+    return false
+  }
+
+  const ruleTokens = ruleCommands[0]
+  for (let i = 0; i < ruleTokens.length; i++) {
+    const ruleToken = ruleTokens[i]
+
+    if (ruleToken === '*' && i === ruleTokens.length - 1) {
+      return true
+    }
+
+    if (i >= argv.length || !matchesToken(argv[i], ruleToken)) {
+      return false
+    }
+  }
+
+  return argv.length === ruleTokens.length
+}
+
+function isRegexRule(rule: string): boolean {
+  const trimmedRule = rule.trim()
+  return (
+    trimmedRule.length > 2 &&
+    trimmedRule.startsWith('/') &&
+    trimmedRule.endsWith('/')
+  )
+}
+
+/**
+ * Test the regular expression rules against the whole command as written,
+ * so a rule can describe how commands are combined, e.g. piping into a
+ * shell. Only used for denied commands, since a whole-command match says
+ * nothing about the other parts.
+ */
+export function matchesWholeCommand(
+  command: string,
+  rules: string[] | undefined,
+): boolean {
+  return (rules ?? []).filter(isRegexRule).some(rule => {
+    try {
+      return new RegExp(rule.trim().slice(1, -1)).test(command)
+    } catch {
+      return false
+    }
+  })
+}
+
+export function matchesCommandRules(
+  argv: string[],
+  rules: string[] | undefined,
+): boolean {
+  if (!rules || rules.length === 0) {
+    return false
+  }
+
+  return rules.some(rule => matchesCommandRule(argv, rule))
+}
+
+export function evaluateBashPolicy(
+  match: MatchResult,
+  appConfig: AppConfig | undefined,
+): PromptAction | undefined {
+  if (
+    !(BASH_PROMPT_PATTERN_IDS as readonly string[]).includes(match.patternId)
+  ) {
+    return undefined
+  }
+
+  const allowedCommands = appConfig?.allowed_commands
+  const deniedCommands = appConfig?.denied_commands
+  if (!allowedCommands?.length && !deniedCommands?.length) {
+    return undefined
+  }
+
+  const command = match.extractedData?.command?.trim()
+  if (!command) {
+    return undefined
+  }
+
+  // If we can't tell what will run, leave it for the user
+  const commands = splitCommand(command)
+  if (!commands) {
+    return 'prompt'
+  }
+
+  const normalized = commands.map(normalizeCommand)
+  if (normalized.some(argv => argv === null)) {
+    return 'prompt'
+  }
+
+  // Denied rules are checked against the command as written and as it runs
+  if (
+    matchesWholeCommand(command, deniedCommands) ||
+    commands.some(
+      (argv, i) =>
+        matchesCommandRules(argv, deniedCommands) ||
+        matchesCommandRules(normalized[i]!, deniedCommands),
+    )
+  ) {
+    return 'prompt'
+  }
+
+  // Allowed rules are matched against the command as written, since an
+  // assignment like LD_PRELOAD=... or a wrapper changes what runs
+  if (
+    commands.length > 0 &&
+    commands.every(
+      argv =>
+        !writesToFile(argv) &&
+        matchesCommandRules(withoutHarmlessRedirections(argv), allowedCommands),
+    )
+  ) {
+    return 'accept'
+  }
+
+  return undefined
+}
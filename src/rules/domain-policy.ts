@@ -0,0 +1,134 @@
+import type { MatchResult } from '../patterns/matcher'
+import type { AppConfig, PromptAction } from '../config/schemas'
+
+export const FETCH_PROMPT_PATTERN_IDS = ['fetch-content-prompt'] as const
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const regexPattern = pattern
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${regexPattern}$`, 'i')
+}
+
+/**
+ * Match a domain against exact names and `*` wildcards, where `*.example.com`
+ * matches subdomains but not `example.com` itself
+ */
+export function matchDomain(domain: string, patterns: string[]): boolean {
+  for (const pattern of patterns) {
+    if (pattern.toLowerCase() === domain.toLowerCase()) {
+      return true
+    }
+
+    if (pattern.includes('*') && wildcardToRegExp(pattern).test(domain)) {
+      return true
+    }
+  }
+  return false
+}
+
+export function parseFetchUrl(url: string | undefined): URL | undefined {
+  if (!url) {
+    return undefined
+  }
+
+  const trimmed = url.trim()
+  try {
+    return new URL(
+      /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`,
+    )
+  } catch {
+    return undefined
+  }
+}
+
+// Whether a URL path is under a prefix, which ends at a path segment so that
+// `/my-org` doesn't cover `/my-org-fork`
+function matchesPathPrefix(pathname: string, pathPrefix: string): boolean {
+  if (!pathname.startsWith(pathPrefix)) {
+    return false
+  }
+  return (
+    pathPrefix.endsWith('/') ||
+    pathname.length === pathPrefix.length ||
+    pathname[pathPrefix.length] === '/'
+  )
+}
+
+/**
+ * Match a domain entry, which may carry a URL path prefix such as
+ * `github.com/my-org/`. When the URL is not known the path can't be checked,
+ * so an entry with a path matches on its domain alone if `matchWithoutUrl`
+ * is set, which denied entries use to fail safe, and doesn't match otherwise.
+ */
+export function matchesDomainEntry(
+  entry: string,
+  domain: string,
+  url: URL | undefined,
+  matchWithoutUrl = false,
+): boolean {
+  const slashIndex = entry.indexOf('/')
+  if (slashIndex === -1) {
+    return matchDomain(domain, [entry])
+  }
+
+  const entryDomain = entry.substring(0, slashIndex)
+  const pathPrefix = entry.substring(slashIndex)
+
+  if (!url) {
+    return matchWithoutUrl && matchDomain(domain, [entryDomain])
+  }
+
+  if (!matchDomain(url.hostname, [entryDomain])) {
+    return false
+  }
+
+  return matchesPathPrefix(url.pathname, pathPrefix)
+}
+
+export function matchesDomainList(
+  domain: string,
+  url: URL | undefined,
+  entries: string[] | undefined,
+  matchWithoutUrl = false,
+): boolean {
+  if (!entries || entries.length === 0) {
+    return false
+  }
+
+  return entries.some(entry =>
+    matchesDomainEntry(entry, domain, url, matchWithoutUrl),
+  )
+}
+
+export function evaluateDomainPolicy(
+  match: MatchResult,
+  appConfig: AppConfig | undefined,
+): PromptAction | undefined {
+  if (
+    !(FETCH_PROMPT_PATTERN_IDS as readonly string[]).includes(match.patternId)
+  ) {
+    return undefined
+  }
+
+  const url = parseFetchUrl(match.extractedData?.url)
+  const domain = (
+    match.extractedData?.domain?.trim() ||
+    url?.hostname ||
+    ''
+  ).toLowerCase()
+  if (!domain) {
+    return undefined
+  }
+
+  if (matchesDomainList(domain, url, appConfig?.denied_domains, true)) {
+    return 'prompt'
+  }
+
+  if (matchesDomainList(domain, url, appConfig?.allowed_domains)) {
+    return 'accept'
+  }
+
+  return undefined
+}
@@ -0,0 +1,83 @@
+import type { MatchResult } from '../patterns/matcher'
+import type {
+  AcceptanceRule,
+  PromptAction,
+  RuleCondition,
+} from '../config/schemas'
+
+export function matchesCondition(
+  value: string | undefined,
+  condition: RuleCondition,
+): boolean {
+  if (value === undefined) {
+    return false
+  }
+
+  // A plain string is shorthand for an exact match
+  if (typeof condition === 'string') {
+    return value === condition
+  }
+
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false
+  }
+  if (condition.contains !== undefined && !value.includes(condition.contains)) {
+    return false
+  }
+  if (
+    condition.starts_with !== undefined &&
+    !value.startsWith(condition.starts_with)
+  ) {
+    return false
+  }
+  if (
+    condition.ends_with !== undefined &&
+    !value.endsWith(condition.ends_with)
+  ) {
+    return false
+  }
+  if (
+    condition.matches !== undefined &&
+    !new RegExp(condition.matches).test(value)
+  ) {
+    return false
+  }
+
+  return true
+}
+
+export function ruleAppliesToPattern(
+  rule: AcceptanceRule,
+  patternId: string,
+): boolean {
+  const patternIds = Array.isArray(rule.pattern) ? rule.pattern : [rule.pattern]
+  return patternIds.some(id => id === '*' || id === patternId)
+}
+
+export function ruleMatches(rule: AcceptanceRule, match: MatchResult): boolean {
+  if (!ruleAppliesToPattern(rule, match.patternId)) {
+    return false
+  }
+
+  const conditions = Object.entries(rule.when || {})
+  return conditions.every(([field, condition]) =>
+    matchesCondition(match.extractedData?.[field], condition),
+  )
+}
+
+/**
+ * Evaluate acceptance rules against a pattern match.
+ * Rules are checked in order and the first matching rule decides the action.
+ * Returns undefined when no rule matches.
+ */
+export function evaluateRules(
+  match: MatchResult,
+  rules: AcceptanceRule[] | undefined,
+): PromptAction | undefined {
+  if (!rules || rules.length === 0) {
+    return undefined
+  }
+
+  const matchingRule = rules.find(rule => ruleMatches(rule, match))
+  return matchingRule?.action
+}
@@ -0,0 +1,67 @@
+import * as path from 'path'
+import picomatch from 'picomatch'
+import type { MatchResult } from '../patterns/matcher'
+import type { AppConfig, PromptAction } from '../config/schemas'
+import { isFileInProjectRoot } from '../utils/file-utils'
+
+export const FILE_PROMPT_PATTERN_IDS = [
+  'edit-file-prompt',
+  'create-file-prompt',
+] as const
+
+export function toProjectRelativePath(filePath: string): string {
+  const absolutePath = path.resolve(process.cwd(), filePath)
+  return path.relative(process.cwd(), absolutePath).split(path.sep).join('/')
+}
+
+/**
+ * Globs without a slash match against the file's basename anywhere in the
+ * project (like .gitignore), globs with a slash match the project-relative path
+ */
+export function matchesFileGlobs(
+  relativePath: string,
+  globs: string[] | undefined,
+): boolean {
+  if (!globs || globs.length === 0) {
+    return false
+  }
+
+  const basename = path.posix.basename(relativePath)
+  return globs.some(glob => {
+    const isMatch = picomatch(glob, { dot: true })
+    return glob.includes('/') ? isMatch(relativePath) : isMatch(basename)
+  })
+}
+
+export function evaluateFilePolicy(
+  match: MatchResult,
+  appConfig: AppConfig | undefined,
+): PromptAction | undefined {
+  if (
+    !(FILE_PROMPT_PATTERN_IDS as readonly string[]).includes(match.patternId)
+  ) {
+    return undefined
+  }
+
+  const fileName = match.extractedData?.fileName?.trim()
+  if (!fileName) {
+    return undefined
+  }
+
+  const relativePath = toProjectRelativePath(fileName)
+
+  if (matchesFileGlobs(relativePath, appConfig?.denied_file_paths)) {
+    return 'prompt'
+  }
+
+  // Never auto-accept files outside of the project
+  if (!isFileInProjectRoot(fileName)) {
+    return undefined
+  }
+
+  if (matchesFileGlobs(relativePath, appConfig?.allowed_file_paths)) {
+    return 'accept'
+  }
+
+  return undefined
+}
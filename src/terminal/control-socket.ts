@@ -0,0 +1,231 @@
+import * as fs from 'fs'
+import * as net from 'net'
+import * as path from 'path'
+import { CONFIG_PATHS } from '../config/paths'
+import type { PendingPrompt } from '../core/pending-prompts'
+
+/**
+ * Requests and responses are single lines of JSON. A connection may send
+ * any number of requests and gets one response line for each.
+ */
+export type ControlRequest =
+  | { command: 'list' }
+  | { command: 'approve'; id?: string }
+  | { command: 'deny'; id?: string }
+
+export interface SessionInfo {
+  pid: number
+  cwd: string
+}
+
+export type ControlResponse =
+  | {
+      ok: true
+      session: SessionInfo
+      prompts?: PendingPrompt[]
+      prompt?: PendingPrompt
+    }
+  | { ok: false; error: string }
+
+export type ControlRequestHandler = (
+  request: ControlRequest,
+) => ControlResponse | Promise<ControlResponse>
+
+const CONTROL_COMMANDS = ['list', 'approve', 'deny']
+const DEFAULT_REQUEST_TIMEOUT = 5000
+
+export function getSessionSocketPath(pid: number = process.pid): string {
+  return path.join(CONFIG_PATHS.getSessionsDirectory(), `${pid}.sock`)
+}
+
+function parseControlRequest(line: string): ControlRequest | string {
+  let request: unknown
+  try {
+    request = JSON.parse(line)
+  } catch (error) {
+    return 'Request is not valid JSON'
+  }
+
+  if (
+    typeof request !== 'object' ||
+    request === null ||
+    !('command' in request) ||
+    typeof request.command !== 'string' ||
+    !CONTROL_COMMANDS.includes(request.command)
+  ) {
+    return `Unknown command, expected one of: ${CONTROL_COMMANDS.join(', ')}`
+  }
+  if (
+    'id' in request &&
+    request.id !== undefined &&
+    typeof request.id !== 'string'
+  ) {
+    return 'Prompt id must be a string'
+  }
+  return request as ControlRequest
+}
+
+/**
+ * Serve control requests on a Unix domain socket that only the current user
+ * can connect to
+ */
+export class ControlServer {
+  private socketPath: string
+  private handler: ControlRequestHandler
+  private server?: net.Server
+
+  constructor(socketPath: string, handler: ControlRequestHandler) {
+    this.socketPath = socketPath
+    this.handler = handler
+  }
+
+  async start(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.socketPath), {
+      recursive: true,
+      mode: 0o700,
+    })
+    // Left behind by a session that didn't exit cleanly with the same pid
+    if (fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath)
+    }
+
+    const server = net.createServer(socket => this.handleConnection(socket))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.socketPath, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    fs.chmodSync(this.socketPath, 0o600)
+    this.server = server
+  }
+
+  close(): void {
+    if (this.server) {
+      this.server.close()
+      this.server = undefined
+    }
+    try {
+      fs.unlinkSync(this.socketPath)
+    } catch (e) {}
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    let buffered = ''
+    socket.setEncoding('utf8')
+    socket.on('error', () => {})
+    socket.on('data', (chunk: string) => {
+      buffered += chunk
+      let newline: number
+      while ((newline = buffered.indexOf('\n')) >= 0) {
+        const line = buffered.slice(0, newline).trim()
+        buffered = buffered.slice(newline + 1)
+        if (line) {
+          this.respond(socket, line)
+        }
+      }
+    })
+  }
+
+  private async respond(socket: net.Socket, line: string): Promise<void> {
+    const request = parseControlRequest(line)
+    let response: ControlResponse
+    if (typeof request === 'string') {
+      response = { ok: false, error: request }
+    } else {
+      try {
+        response = await this.handler(request)
+      } catch (error) {
+        response = {
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        }
+      }
+    }
+
+    if (!socket.destroyed) {
+      socket.write(JSON.stringify(response) + '\n')
+    }
+  }
+}
+
+/**
+ * Send one request to a session and wait for its response
+ */
+export function sendControlRequest(
+  socketPath: string,
+  request: ControlRequest,
+  timeout = DEFAULT_REQUEST_TIMEOUT,
+): Promise<ControlResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection(socketPath)
+    let buffered = ''
+
+    socket.setEncoding('utf8')
+    socket.setTimeout(timeout, () => {
+      socket.destroy()
+      reject(new Error(`No response from session socket ${socketPath}`))
+    })
+    socket.on('error', reject)
+    socket.on('connect', () => {
+      socket.write(JSON.stringify(request) + '\n')
+    })
+    socket.on('data', (chunk: string) => {
+      buffered += chunk
+      const newline = buffered.indexOf('\n')
+      if (newline < 0) {
+        return
+      }
+      socket.end()
+      try {
+        resolve(JSON.parse(buffered.slice(0, newline)))
+      } catch (error) {
+        reject(new Error(`Invalid response from session socket ${socketPath}`))
+      }
+    })
+  })
+}
+
+export interface RunningSession extends SessionInfo {
+  socketPath: string
+}
+
+/**
+ * Find the running sessions. Sockets left behind by sessions that exited
+ * without cleaning up are removed.
+ */
+export async function findRunningSessions(): Promise<RunningSession[]> {
+  const directory = CONFIG_PATHS.getSessionsDirectory()
+  if (!fs.existsSync(directory)) {
+    return []
+  }
+
+  const socketPaths = fs
+    .readdirSync(directory)
+    .filter(name => name.endsWith('.sock'))
+    .map(name => path.join(directory, name))
+
+  const sessions: RunningSession[] = []
+  for (const socketPath of socketPaths) {
+    try {
+      const response = await sendControlRequest(socketPath, {
+        command: 'list',
+      })
+      if (response.ok) {
+        sessions.push({ socketPath, ...response.session })
+      }
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        'code' in error &&
+        error.code === 'ECONNREFUSED'
+      ) {
+        try {
+          fs.unlinkSync(socketPath)
+        } catch (e) {}
+      }
+    }
+  }
+  return sessions
+}
@@ -0,0 +1,234 @@
+import type { IDisposable, Terminal } from '@xterm/xterm'
+import type { BufferRegion } from './types'
+
+// Sequences that move the cursor to another row, so output can land away
+// from where it was last written
+const CSI_MOVE_FINALS = ['A', 'B', 'E', 'F', 'H', 'f', 'd']
+// Sequences that edit the cursor row
+const CSI_ROW_FINALS = ['K', 'P', 'X', '@']
+// Sequences that shift or clear every row from the cursor down
+const CSI_BELOW_CURSOR_FINALS = ['L', 'M']
+// Sequences that scroll the whole scroll region, wherever the cursor is
+const CSI_SCROLL_FINALS = ['S', 'T']
+
+/**
+ * Track which buffer rows may have changed since they were last read. Rows
+ * are marked from xterm events as output is parsed: the cursor row after
+ * each write and line feed, the cursor row before every sequence that moves
+ * the cursor or erases text, and the row a cursor movement lands on. A
+ * scroll that shifts rows without moving them into the scrollback marks the
+ * whole screen. The changed rows are kept as one range from the lowest to
+ * the highest marked row.
+ */
+export class DirtyRowTracker {
+  private terminal: Terminal
+  private disposables: IDisposable[] = []
+  private dirtyRegion: BufferRegion | null = null
+  // Cursor row when tracking started, where the next output is written
+  private startRow: number
+  // Scroll region set with DECSTBM, as screen rows counted from 0
+  private scrollTop = 0
+  private scrollBottom: number
+
+  constructor(terminal: Terminal) {
+    this.terminal = terminal
+    this.startRow = this.getCursorRow()
+    this.scrollBottom = terminal.rows - 1
+    this.markScreen()
+
+    this.disposables.push(
+      terminal.onWriteParsed(() => this.markCursorRow()),
+      // A line feed at the bottom of the scroll region may have shifted it
+      terminal.onLineFeed(() => {
+        if (
+          this.terminal.buffer.active.cursorY === this.scrollBottom &&
+          this.scrollsInPlace()
+        ) {
+          this.markScreen()
+        } else {
+          this.markCursorRow()
+        }
+      }),
+      // Resizing also resets the scroll region
+      terminal.onResize(() => {
+        this.scrollTop = 0
+        this.scrollBottom = terminal.rows - 1
+        this.markScreen()
+      }),
+    )
+
+    for (const final of CSI_MOVE_FINALS) {
+      this.disposables.push(
+        terminal.parser.registerCsiHandler({ final }, params => {
+          this.markCursorRow()
+          this.markMoveTarget(final, Number(params[0]) || 0)
+          return false
+        }),
+      )
+    }
+
+    for (const final of CSI_ROW_FINALS) {
+      this.disposables.push(
+        terminal.parser.registerCsiHandler({ final }, () => {
+          this.markCursorRow()
+          return false
+        }),
+      )
+    }
+
+    for (const final of CSI_BELOW_CURSOR_FINALS) {
+      this.disposables.push(
+        terminal.parser.registerCsiHandler({ final }, () => {
+          this.markBelowCursor()
+          return false
+        }),
+      )
+    }
+
+    for (const final of CSI_SCROLL_FINALS) {
+      this.disposables.push(
+        terminal.parser.registerCsiHandler({ final }, () => {
+          this.markScreen()
+          return false
+        }),
+      )
+    }
+
+    // Setting the scroll region also moves the cursor home
+    this.disposables.push(
+      terminal.parser.registerCsiHandler({ final: 'r' }, params => {
+        const top = (Number(params[0]) || 1) - 1
+        const bottom = (Number(params[1]) || terminal.rows) - 1
+        if (top < bottom && bottom < terminal.rows) {
+          this.scrollTop = top
+          this.scrollBottom = bottom
+        }
+        this.markCursorRow()
+        this.markMoveTarget('H', 1)
+        return false
+      }),
+    )
+
+    // Erasing the display clears rows above or below the cursor, or both
+    this.disposables.push(
+      terminal.parser.registerCsiHandler({ final: 'J' }, params => {
+        const mode = params[0] || 0
+        if (mode === 0) {
+          this.markBelowCursor()
+        } else {
+          this.markScreen()
+        }
+        return false
+      }),
+    )
+
+    // Index and next line scroll the region up from its bottom row, and
+    // reverse index scrolls it down from its top row
+    for (const final of ['D', 'E', 'M']) {
+      this.disposables.push(
+        terminal.parser.registerEscHandler({ final }, () => {
+          const cursorY = this.terminal.buffer.active.cursorY
+          const scrolls =
+            final === 'M'
+              ? cursorY === this.scrollTop
+              : cursorY === this.scrollBottom && this.scrollsInPlace()
+          if (scrolls) {
+            this.markScreen()
+          } else {
+            this.markCursorRow()
+          }
+          return false
+        }),
+      )
+    }
+  }
+
+  markRows(startRow: number, endRow: number): void {
+    if (!this.dirtyRegion) {
+      this.dirtyRegion = { startRow, endRow }
+      return
+    }
+    this.dirtyRegion = {
+      startRow: Math.min(this.dirtyRegion.startRow, startRow),
+      endRow: Math.max(this.dirtyRegion.endRow, endRow),
+    }
+  }
+
+  markScreen(): void {
+    const baseY = this.terminal.buffer.active.baseY
+    this.markRows(baseY, baseY + this.terminal.rows - 1)
+  }
+
+  /**
+   * Return the rows changed since the last call and start tracking afresh
+   */
+  takeDirtyRegion(): BufferRegion | null {
+    const dirtyRegion = this.dirtyRegion
+    this.dirtyRegion = null
+    // The next write starts wherever the cursor is now
+    this.startRow = this.getCursorRow()
+    return dirtyRegion
+  }
+
+  dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+  }
+
+  private getCursorRow(): number {
+    const buffer = this.terminal.buffer.active
+    return buffer.baseY + buffer.cursorY
+  }
+
+  // Rows between marks are included too, which covers lines that wrapped
+  private markCursorRow(): void {
+    const cursorRow = this.getCursorRow()
+    this.markRows(Math.min(this.startRow, cursorRow), cursorRow)
+  }
+
+  /**
+   * Mark the row a cursor movement goes to before it happens, since output
+   * written there may be followed by another movement before any event
+   */
+  private markMoveTarget(final: string, param: number): void {
+    const baseY = this.terminal.buffer.active.baseY
+    const lastRow = baseY + this.terminal.rows - 1
+    const cursorRow = this.getCursorRow()
+    const count = Math.max(param, 1)
+
+    let target: number
+    switch (final) {
+      case 'A':
+      case 'F':
+        target = cursorRow - count
+        break
+      case 'B':
+      case 'E':
+        target = cursorRow + count
+        break
+      default:
+        // H, f and d go to an absolute row, counted from 1
+        target = baseY + count - 1
+    }
+    target = Math.min(Math.max(target, baseY), lastRow)
+    this.markRows(target, target)
+  }
+
+  /**
+   * Whether scrolling up shifts rows on screen rather than moving the top
+   * row into the scrollback, which only happens for a full screen region in
+   * the normal buffer
+   */
+  private scrollsInPlace(): boolean {
+    return (
+      this.scrollTop > 0 ||
+      this.scrollBottom < this.terminal.rows - 1 ||
+      this.terminal.buffer.active.type === 'alternate'
+    )
+  }
+
+  private markBelowCursor(): void {
+    const buffer = this.terminal.buffer.active
+    this.markRows(this.getCursorRow(), buffer.baseY + this.terminal.rows - 1)
+  }
+}
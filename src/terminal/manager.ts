@@ -7,11 +7,19 @@ import type { SerializeAddon } from '@xterm/addon-serialize'
 import type {
   TerminalConfig,
   TerminalState,
+  TerminalViewport,
   DataHandler,
   ExitHandler,
   ResizeHandler,
 } from './types'
 import { saveTerminalSnapshot } from './utils'
+import { readViewport } from './viewport'
+import { DirtyRowTracker } from './dirty-rows'
+import {
+  ControlServer,
+  getSessionSocketPath,
+  type ControlRequestHandler,
+} from './control-socket'
 import type { AppConfig } from '../config/schemas'
 import type { ResponseQueue } from '../core/response-queue'
 
@@ -28,6 +36,10 @@ export class TerminalManager {
   private tempMcpConfigPath?: string
   private appConfig?: AppConfig
   private responseQueue?: ResponseQueue
+  private dirtyRowTracker?: DirtyRowTracker
+  private lastViewport?: TerminalViewport
+  private controlServer?: ControlServer
+  private input: NodeJS.ReadStream = process.stdin
 
   constructor(appConfig?: AppConfig, responseQueue?: ResponseQueue) {
     this.appConfig = appConfig
@@ -36,6 +48,9 @@ export class TerminalManager {
 
   async initialize(config: TerminalConfig): Promise<void> {
     const { isTTY, cols, rows, env, cwd, childAppPath, childArgs } = config
+    if (config.input) {
+      this.input = config.input
+    }
 
     if (isTTY) {
       await this.initializePty(childAppPath, childArgs, cols, rows, env, cwd)
@@ -75,9 +90,9 @@ export class TerminalManager {
       this.exitHandlers.forEach(handler => handler(exitCode.exitCode || 0))
     })
 
-    if (process.stdin.isTTY) {
-      process.stdin.removeAllListeners('data')
-      process.stdin.setRawMode(true)
+    if (this.input.isTTY) {
+      this.input.removeAllListeners('data')
+      this.input.setRawMode(true)
       this.state.isRawMode = true
     }
   }
@@ -152,6 +167,7 @@ export class TerminalManager {
 
       this.state.serializeAddon = new SerializeAddon() as SerializeAddon
       this.state.terminal.loadAddon(this.state.serializeAddon)
+      this.dirtyRowTracker = new DirtyRowTracker(this.state.terminal)
     } catch (error) {}
   }
 
@@ -224,6 +240,64 @@ export class TerminalManager {
     }
   }
 
+  captureViewport(): TerminalViewport | null {
+    if (!this.state.terminal) {
+      return null
+    }
+
+    try {
+      this.lastViewport = readViewport(
+        this.state.terminal,
+        this.lastViewport,
+        this.dirtyRowTracker?.takeDirtyRegion(),
+      )
+      return this.lastViewport
+    } catch (error) {
+      return null
+    }
+  }
+
+  /**
+   * Read the viewport without taking the tracked row changes, for checks
+   * made between captures
+   */
+  peekViewport(): TerminalViewport | null {
+    if (!this.state.terminal) {
+      return null
+    }
+
+    try {
+      return readViewport(this.state.terminal)
+    } catch (error) {
+      return null
+    }
+  }
+
+  /**
+   * Listen for control requests, such as answering prompts, on a Unix
+   * socket for this session. Returns the socket path.
+   */
+  async startControlSocket(
+    handler: ControlRequestHandler,
+    socketPath: string = getSessionSocketPath(),
+  ): Promise<string> {
+    const server = new ControlServer(socketPath, handler)
+    await server.start()
+    this.controlServer = server
+    return socketPath
+  }
+
+  /**
+   * Resolve once everything written to the terminal buffer has been parsed
+   */
+  flushTerminalBuffer(): Promise<void> {
+    const terminal = this.state.terminal
+    if (!terminal) {
+      return Promise.resolve()
+    }
+    return new Promise(resolve => terminal.write('', resolve))
+  }
+
   updateTerminalBuffer(data: string): void {
     if (this.state.terminal) {
       this.state.terminal.write(data)
@@ -231,8 +305,8 @@ export class TerminalManager {
   }
 
   cleanup(): void {
-    if (this.state.isRawMode && process.stdin.isTTY) {
-      process.stdin.setRawMode(false)
+    if (this.state.isRawMode && this.input.isTTY) {
+      this.input.setRawMode(false)
       this.state.isRawMode = false
     }
 
@@ -241,6 +315,16 @@ export class TerminalManager {
       this.state.pendingPromptCheck = null
     }
 
+    if (this.controlServer) {
+      this.controlServer.close()
+      this.controlServer = undefined
+    }
+
+    if (this.dirtyRowTracker) {
+      this.dirtyRowTracker.dispose()
+      this.dirtyRowTracker = undefined
+    }
+
     if (this.state.terminal) {
       this.state.terminal.dispose()
       this.state.terminal = undefined
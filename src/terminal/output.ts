@@ -0,0 +1,79 @@
+export interface TerminalWriter {
+  write(data: string): unknown
+}
+
+type EscapeState = 'ground' | 'escape' | 'csi' | 'string' | 'string-escape'
+
+// ESC ] (OSC), P (DCS), _ (APC), ^ (PM) and X (SOS) start sequences that run
+// until BEL or ST
+const STRING_SEQUENCE_INTRODUCERS = [']', 'P', '_', '^', 'X']
+
+/**
+ * Mirrors Claude Code's output to the user's terminal, and lets Claude
+ * Composer write its own escape sequences, like notifications, into the same
+ * stream. The output arrives in chunks that can end part way through an
+ * escape sequence, so our writes are held back until the output is between
+ * sequences again.
+ */
+export class TerminalOutput implements TerminalWriter {
+  private output: TerminalWriter
+  private state: EscapeState = 'ground'
+  private pending: string[] = []
+
+  constructor(output: TerminalWriter = process.stdout) {
+    this.output = output
+  }
+
+  /**
+   * Write a chunk of Claude Code's output
+   */
+  mirror(data: string): void {
+    this.output.write(data)
+    for (const char of data) {
+      this.state = this.nextState(char)
+    }
+    if (this.state === 'ground' && this.pending.length > 0) {
+      this.output.write(this.pending.join(''))
+      this.pending = []
+    }
+  }
+
+  /**
+   * Write our own output without breaking up one of Claude Code's escape
+   * sequences
+   */
+  write(data: string): void {
+    if (this.state === 'ground') {
+      this.output.write(data)
+    } else {
+      this.pending.push(data)
+    }
+  }
+
+  private nextState(char: string): EscapeState {
+    switch (this.state) {
+      case 'ground':
+        return char === '\x1b' ? 'escape' : 'ground'
+      case 'escape':
+        if (char === '[') {
+          return 'csi'
+        }
+        if (STRING_SEQUENCE_INTRODUCERS.includes(char)) {
+          return 'string'
+        }
+        // Intermediate bytes, e.g. ESC ( B, are followed by one more byte
+        return char >= ' ' && char <= '/' ? 'escape' : 'ground'
+      case 'csi':
+        return char >= '@' && char <= '~' ? 'ground' : 'csi'
+      case 'string':
+        if (char === '\x07') {
+          return 'ground'
+        }
+        return char === '\x1b' ? 'string-escape' : 'string'
+      case 'string-escape':
+        return char === '\\' ? 'ground' : 'string'
+    }
+  }
+}
+
+export const terminalOutput = new TerminalOutput()
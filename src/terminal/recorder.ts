@@ -0,0 +1,150 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { CONFIG_PATHS } from '../config/paths'
+
+export interface AsciicastHeader {
+  version: 2
+  width: number
+  height: number
+  timestamp: number
+  title?: string
+  env?: Record<string, string>
+}
+
+// Output, input, resize and marker events of asciicast v2
+export type AsciicastEventType = 'o' | 'i' | 'r' | 'm'
+
+export type AsciicastEvent = [number, AsciicastEventType, string]
+
+export function getDefaultRecordingPath(date: Date = new Date()): string {
+  const timestamp = date.toISOString().replace(/[:.]/g, '-')
+  return path.join(CONFIG_PATHS.getLogsDirectory(), `session-${timestamp}.cast`)
+}
+
+/**
+ * Record a session as an asciicast v2 file: terminal output, keystrokes,
+ * resizes, and what Claude Composer did as markers. Events are written as
+ * they happen so the file is complete up to a crash.
+ */
+export class SessionRecorder {
+  private filePath: string
+  private fd: number | null = null
+  private startedAt = 0
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+  }
+
+  start(width: number, height: number, title?: string): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    this.fd = fs.openSync(this.filePath, 'w', 0o600)
+    this.startedAt = Date.now()
+
+    const header: AsciicastHeader = {
+      version: 2,
+      width,
+      height,
+      timestamp: Math.floor(this.startedAt / 1000),
+      title,
+      env: {
+        SHELL: process.env.SHELL || '',
+        TERM: process.env.TERM || '',
+      },
+    }
+    this.writeLine(header)
+  }
+
+  output(data: string): void {
+    this.event('o', data)
+  }
+
+  input(data: string): void {
+    this.event('i', data)
+  }
+
+  resize(width: number, height: number): void {
+    this.event('r', `${width}x${height}`)
+  }
+
+  marker(label: string): void {
+    this.event('m', label)
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      try {
+        fs.closeSync(this.fd)
+      } catch (e) {}
+      this.fd = null
+    }
+  }
+
+  private event(type: AsciicastEventType, data: string): void {
+    const seconds = (Date.now() - this.startedAt) / 1000
+    const event: AsciicastEvent = [Number(seconds.toFixed(6)), type, data]
+    this.writeLine(event)
+  }
+
+  private writeLine(value: unknown): void {
+    if (this.fd === null) {
+      return
+    }
+    try {
+      fs.writeSync(this.fd, JSON.stringify(value) + '\n')
+    } catch (e) {}
+  }
+}
+
+export interface Recording {
+  header: AsciicastHeader
+  events: AsciicastEvent[]
+}
+
+const EVENT_TYPES = ['o', 'i', 'r', 'm']
+
+/**
+ * Parse an asciicast v2 file. Events of types other than output, input,
+ * resize and marker are skipped.
+ */
+export function parseRecording(content: string): Recording {
+  const lines = content.split('\n').filter(line => line.trim() !== '')
+  if (lines.length === 0) {
+    throw new Error('Recording is empty')
+  }
+
+  let header: AsciicastHeader
+  try {
+    header = JSON.parse(lines[0])
+  } catch (error) {
+    throw new Error('Recording header is not valid JSON')
+  }
+  if (
+    header?.version !== 2 ||
+    typeof header.width !== 'number' ||
+    typeof header.height !== 'number'
+  ) {
+    throw new Error('Recording is not an asciicast v2 file')
+  }
+
+  const events: AsciicastEvent[] = []
+  for (let i = 1; i < lines.length; i++) {
+    let event: unknown
+    try {
+      event = JSON.parse(lines[i])
+    } catch (error) {
+      throw new Error(`Recording line ${i + 1} is not valid JSON`)
+    }
+    if (
+      !Array.isArray(event) ||
+      typeof event[0] !== 'number' ||
+      typeof event[2] !== 'string'
+    ) {
+      throw new Error(`Recording line ${i + 1} is not an event`)
+    }
+    if (EVENT_TYPES.includes(event[1])) {
+      events.push(event as AsciicastEvent)
+    }
+  }
+
+  return { header, events }
+}
@@ -0,0 +1,145 @@
+import type { Terminal } from '@xterm/headless'
+import { PatternMatcher, type MatchResult } from '../patterns/matcher'
+import type { AppConfig, PatternConfig, PromptAction } from '../config/schemas'
+import { getPromptAction } from '../utils/prompt-acceptance'
+import { readViewport } from './viewport'
+import { resolveSettleTiming } from './settle'
+import type { Recording } from './recorder'
+
+export interface ReplayOptions {
+  patterns: PatternConfig[]
+  appConfig?: AppConfig
+  yolo?: boolean
+}
+
+export interface ReplayedMatch {
+  // Seconds into the recording
+  time: number
+  match: MatchResult
+  action: PromptAction
+}
+
+function writeToTerminal(terminal: Terminal, data: string): Promise<void> {
+  return new Promise(resolve => terminal.write(data, resolve))
+}
+
+/**
+ * Decide what the session would do with a match, the same way it does live
+ */
+function getReplayAction(
+  match: MatchResult,
+  appConfig: AppConfig | undefined,
+  yolo: boolean | undefined,
+): PromptAction {
+  if (
+    match.patternId === 'allow-trusted-root' &&
+    (Array.isArray(match.response)
+      ? match.response.length > 0
+      : !!match.response)
+  ) {
+    return 'accept'
+  }
+  return getPromptAction(match, appConfig, yolo)
+}
+
+/**
+ * Feed a recorded session's output through a headless terminal and the
+ * pattern matcher, without running Claude Code. The screen is checked when
+ * a trigger was seen and the output went quiet, or stayed busy past the
+ * settle deadline, just as during a live session.
+ */
+export async function replayRecording(
+  recording: Recording,
+  options: ReplayOptions,
+): Promise<ReplayedMatch[]> {
+  const xtermModule = await import('@xterm/headless')
+  const HeadlessTerminal =
+    xtermModule.Terminal || xtermModule.default?.Terminal || xtermModule.default
+  const terminal: Terminal = new HeadlessTerminal({
+    cols: recording.header.width,
+    rows: recording.header.height,
+    scrollback: 5000,
+    allowProposedApi: true,
+  })
+  const matcher = new PatternMatcher(false)
+  for (const pattern of options.patterns) {
+    matcher.addPattern(pattern)
+  }
+
+  const results: ReplayedMatch[] = []
+  const { events } = recording
+  let triggered: PatternConfig[] = []
+  let firstTriggerTime = 0
+
+  // The time of the next output after each event, filled in from the end so
+  // long recordings don't have to be searched again for every event
+  const nextOutputTimes: (number | undefined)[] = new Array(events.length)
+  let nextOutputTime: number | undefined
+  for (let i = events.length - 1; i >= 0; i--) {
+    nextOutputTimes[i] = nextOutputTime
+    if (events[i][1] === 'o') {
+      nextOutputTime = events[i][0]
+    }
+  }
+
+  try {
+    for (let i = 0; i < events.length; i++) {
+      const [time, type, data] = events[i]
+
+      if (type === 'r') {
+        const [cols, rows] = data.split('x').map(Number)
+        if (cols > 0 && rows > 0) {
+          terminal.resize(cols, rows)
+        }
+        continue
+      }
+      if (type !== 'o') {
+        continue
+      }
+
+      await writeToTerminal(terminal, data)
+
+      const newlyTriggered = options.patterns.filter(
+        pattern =>
+          pattern.triggerText &&
+          data.includes(pattern.triggerText) &&
+          !triggered.includes(pattern),
+      )
+      if (newlyTriggered.length > 0) {
+        if (triggered.length === 0) {
+          firstTriggerTime = time
+        }
+        triggered.push(...newlyTriggered)
+      }
+      if (triggered.length === 0) {
+        continue
+      }
+
+      const timing = resolveSettleTiming(triggered)
+      const nextTime = nextOutputTimes[i]
+      const settled =
+        nextTime === undefined ||
+        (nextTime - time) * 1000 >= timing.quietMs ||
+        (nextTime - firstTriggerTime) * 1000 >= timing.maxWaitMs
+      if (!settled) {
+        continue
+      }
+
+      triggered = []
+      for (const match of matcher.processViewport(readViewport(terminal))) {
+        if (match.patternId === 'app-ready-handler') {
+          continue
+        }
+        results.push({
+          time,
+          match,
+          action: getReplayAction(match, options.appConfig, options.yolo),
+        })
+      }
+    }
+  } finally {
+    terminal.dispose()
+  }
+
+  return results
+}
@@ -0,0 +1,135 @@
+import type { PatternConfig } from '../config/schemas'
+
+export interface SettleTiming {
+  // How long the screen must go without output before it is checked
+  quietMs: number
+  // Upper bound from the trigger until the screen is checked regardless
+  maxWaitMs: number
+}
+
+export const DEFAULT_SETTLE_TIMING: SettleTiming = {
+  quietMs: 100,
+  maxWaitMs: 1000,
+}
+
+/**
+ * Settle timing for a set of triggered patterns. Each pattern falls back to
+ * the defaults for timings it doesn't set, and the longest timings win.
+ */
+export function resolveSettleTiming(patterns: PatternConfig[]): SettleTiming {
+  if (patterns.length === 0) {
+    return { ...DEFAULT_SETTLE_TIMING }
+  }
+
+  return patterns.reduce<SettleTiming>(
+    (timing, pattern) => ({
+      quietMs: Math.max(
+        timing.quietMs,
+        pattern.settle?.quietMs ?? DEFAULT_SETTLE_TIMING.quietMs,
+      ),
+      maxWaitMs: Math.max(
+        timing.maxWaitMs,
+        pattern.settle?.maxWaitMs ?? DEFAULT_SETTLE_TIMING.maxWaitMs,
+      ),
+    }),
+    { quietMs: 0, maxWaitMs: 0 },
+  )
+}
+
+/**
+ * Wait for a prompt to finish rendering after its trigger text is seen. The
+ * screen is considered settled once no output has arrived for the quiet
+ * period and the last line of a triggered pattern is on screen. If that
+ * never happens, the screen is checked anyway once the maximum wait since
+ * the first trigger has passed.
+ */
+export class SettleDetector {
+  private isRendered: (patternIds: string[]) => boolean
+  private onSettled: () => void
+  private patternIds = new Set<string>()
+  private timing: SettleTiming | null = null
+  private triggeredAt = 0
+  private quietTimer: NodeJS.Timeout | null = null
+  private deadlineTimer: NodeJS.Timeout | null = null
+
+  constructor(
+    isRendered: (patternIds: string[]) => boolean,
+    onSettled: () => void,
+  ) {
+    this.isRendered = isRendered
+    this.onSettled = onSettled
+  }
+
+  /**
+   * Start waiting for the given patterns, or add them to the current wait.
+   * Later triggers can lengthen the wait but never move the deadline past
+   * the longest maximum wait measured from the first trigger.
+   */
+  trigger(patternIds: string[], timing: SettleTiming): void {
+    if (!this.timing) {
+      this.triggeredAt = Date.now()
+      this.timing = { ...timing }
+    } else {
+      this.timing = {
+        quietMs: Math.max(this.timing.quietMs, timing.quietMs),
+        maxWaitMs: Math.max(this.timing.maxWaitMs, timing.maxWaitMs),
+      }
+    }
+    patternIds.forEach(id => this.patternIds.add(id))
+
+    this.scheduleDeadline()
+    this.scheduleQuietCheck()
+  }
+
+  /**
+   * Record output from the terminal, restarting the quiet period
+   */
+  activity(): void {
+    if (this.timing) {
+      this.scheduleQuietCheck()
+    }
+  }
+
+  isPending(): boolean {
+    return this.timing !== null
+  }
+
+  cancel(): void {
+    if (this.quietTimer) {
+      clearTimeout(this.quietTimer)
+      this.quietTimer = null
+    }
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer)
+      this.deadlineTimer = null
+    }
+    this.patternIds.clear()
+    this.timing = null
+  }
+
+  private scheduleQuietCheck(): void {
+    if (this.quietTimer) {
+      clearTimeout(this.quietTimer)
+    }
+    this.quietTimer = setTimeout(() => {
+      this.quietTimer = null
+      // Still drawing: wait for more output or the deadline
+      if (this.isRendered(Array.from(this.patternIds))) {
+        this.settle()
+      }
+    }, this.timing!.quietMs)
+  }
+
+  private scheduleDeadline(): void {
+    if (this.deadlineTimer) {
+      clearTimeout(this.deadlineTimer)
+    }
+    const remaining = this.triggeredAt + this.timing!.maxWaitMs - Date.now()
+    this.deadlineTimer = setTimeout(() => this.settle(), Math.max(remaining, 0))
+  }
+
+  private settle(): void {
+    this.cancel()
+    this.onSettled()
+  }
+}
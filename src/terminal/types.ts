@@ -12,6 +12,8 @@ export interface TerminalConfig {
   cwd: string
   childAppPath: string
   childArgs: string[]
+  // Where keystrokes come from, the controlling terminal when stdin is piped
+  input?: NodeJS.ReadStream
 }
 
 export interface TerminalSnapshot {
@@ -32,6 +34,26 @@ export interface TerminalSnapshot {
   }
 }
 
+export interface BufferRegion {
+  startRow: number
+  endRow: number
+}
+
+/**
+ * The visible rows of the terminal. Row numbers are absolute positions in the
+ * xterm buffer, so they stay the same as content scrolls into the scrollback.
+ */
+export interface TerminalViewport {
+  lines: string[]
+  startRow: number
+  cursorRow: number
+  cursorCol: number
+  promptRegion?: BufferRegion
+  // Rows read from the terminal since the previous capture. null when nothing
+  // changed, undefined when the whole viewport was read.
+  dirtyRegion?: BufferRegion | null
+}
+
 export interface TerminalState {
   ptyProcess?: IPty
   childProcess?: ChildProcess
@@ -0,0 +1,95 @@
+import type { Terminal as HeadlessTerminal } from '@xterm/headless'
+import type { Terminal } from '@xterm/xterm'
+import type { BufferRegion, TerminalViewport } from './types'
+
+const BOX_TOP_REGEX = /^\s*╭/
+const BOX_BOTTOM_REGEX = /^\s*╰/
+
+/**
+ * Find the box Claude draws around the active prompt or input: the lowest
+ * box that starts at or above the cursor.
+ */
+export function findPromptRegion(
+  lines: string[],
+  startRow: number,
+  cursorRow: number,
+): BufferRegion | undefined {
+  const cursorIndex = Math.min(cursorRow - startRow, lines.length - 1)
+
+  for (let top = cursorIndex; top >= 0; top--) {
+    if (!BOX_TOP_REGEX.test(lines[top])) {
+      continue
+    }
+
+    let bottom = top + 1
+    while (bottom < lines.length && !BOX_BOTTOM_REGEX.test(lines[bottom])) {
+      bottom++
+    }
+
+    return {
+      startRow: startRow + top,
+      endRow: startRow + Math.min(bottom, lines.length - 1),
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Read the rows currently on screen from the active xterm buffer, leaving
+ * out the scrollback above them. Given the previous viewport and the rows
+ * that changed since it was read, only changed or newly visible rows are
+ * read again.
+ */
+export function readViewport(
+  terminal: Terminal | HeadlessTerminal,
+  previous?: TerminalViewport,
+  changedRegion?: BufferRegion | null,
+): TerminalViewport {
+  const buffer = terminal.buffer.active
+  const startRow = buffer.baseY
+  const lines: string[] = []
+  const canReuse =
+    previous !== undefined &&
+    changedRegion !== undefined &&
+    previous.lines.length === terminal.rows
+  let dirtyRegion: BufferRegion | null = null
+
+  for (let y = 0; y < terminal.rows; y++) {
+    const row = startRow + y
+
+    if (canReuse) {
+      const previousIndex = row - previous.startRow
+      const isChanged =
+        changedRegion !== null &&
+        row >= changedRegion.startRow &&
+        row <= changedRegion.endRow
+      if (
+        !isChanged &&
+        previousIndex >= 0 &&
+        previousIndex < previous.lines.length
+      ) {
+        lines.push(previous.lines[previousIndex])
+        continue
+      }
+    }
+
+    const line = buffer.getLine(row)
+    lines.push(line ? line.translateToString(true) : '')
+    dirtyRegion = {
+      startRow: dirtyRegion ? dirtyRegion.startRow : row,
+      endRow: row,
+    }
+  }
+
+  const cursorRow = startRow + buffer.cursorY
+
+  return {
+    lines,
+    startRow,
+    cursorRow,
+    cursorCol: buffer.cursorX,
+    promptRegion: findPromptRegion(lines, startRow, cursorRow),
+    dirtyRegion: canReuse ? dirtyRegion : undefined,
+  }
+}
@@ -17,6 +17,10 @@ export interface PreflightResult {
   knownOptions: Set<string>
   hasPrintOption?: boolean
   yolo?: boolean
+  // Prompts to submit after the first one, each once the previous turn ends
+  queuedPrompts?: string[]
+  // asciicast file to record the session to, with --record
+  recordingPath?: string
 }
 
 export interface ParsedOptions {
@@ -31,12 +35,16 @@ export interface ParsedOptions {
 
   // Other settings
   toolset?: string[]
+  ruleset?: string[]
   yolo?: boolean
   ignoreGlobalConfig?: boolean
   logAllPatternMatches?: boolean
   allowBufferSnapshots?: boolean
   quiet?: boolean
   mode?: string
+  promptsFile?: string
+  then?: string[]
+  record?: boolean | string
 }
 
 // Re-export for convenience
@@ -0,0 +1,260 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { spawn } from 'child_process'
+import notifier from 'node-notifier'
+import type { NotificationBackendConfig } from '../config/schemas'
+import type { NotificationOptions, NotificationType } from './notifications'
+import { expandPath } from './file-utils'
+import { terminalOutput, type TerminalWriter } from '../terminal/output'
+
+export interface Notification extends NotificationOptions {
+  title: string
+  sticky: boolean
+  type?: NotificationType
+}
+
+export interface NotificationBackend {
+  name: string
+  send(notification: Notification): Promise<void>
+}
+
+export const DEFAULT_NOTIFICATION_BACKENDS: NotificationBackendConfig[] = [
+  'node-notifier',
+]
+
+const DEFAULT_COMMAND_TIMEOUT = 10000
+const DEFAULT_WEBHOOK_TIMEOUT = 10000
+
+// Terminal escape sequences end at a control character, so messages are
+// flattened to one line without any
+function toTerminalText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join(' - ')
+    .replace(/[\x00-\x1f\x7f]/g, ' ')
+}
+
+/**
+ * Desktop notifications through node-notifier
+ */
+export class NodeNotifierBackend implements NotificationBackend {
+  name = 'node-notifier'
+
+  async send(notification: Notification): Promise<void> {
+    const { type, sticky, ...options } = notification
+    notifier.notify(options)
+  }
+}
+
+/**
+ * Notifications drawn by the terminal itself, which also reach the user
+ * over SSH. OSC 9 is understood by iTerm2, WezTerm, Windows Terminal and
+ * Ghostty, OSC 777 by rxvt-unicode, foot and Ghostty. They go out with
+ * Claude Code's output, so they can't land inside one of its own sequences.
+ */
+export class OscBackend implements NotificationBackend {
+  name = 'osc'
+  private code: 9 | 777
+  private output: TerminalWriter
+
+  constructor(code: 9 | 777 = 9, output: TerminalWriter = terminalOutput) {
+    this.code = code
+    this.output = output
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const title = toTerminalText(notification.title)
+    const message = toTerminalText(notification.message)
+
+    if (this.code === 777) {
+      // Fields are separated by semicolons, the body is the rest
+      this.output.write(
+        `\x1b]777;notify;${title.replace(/;/g, ',')};${message}\x07`,
+      )
+    } else {
+      this.output.write(`\x1b]9;${title}: ${message}\x07`)
+    }
+  }
+}
+
+/**
+ * Ring the terminal bell, which most terminals and multiplexers can turn
+ * into an alert
+ */
+export class BellBackend implements NotificationBackend {
+  name = 'bell'
+  private output: TerminalWriter
+
+  constructor(output: TerminalWriter = terminalOutput) {
+    this.output = output
+  }
+
+  async send(): Promise<void> {
+    this.output.write('\x07')
+  }
+}
+
+/**
+ * Append each notification as a line of JSON to a file or FIFO
+ */
+export class FileBackend implements NotificationBackend {
+  name = 'file'
+  private filePath: string
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(expandPath(filePath))
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const line =
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+      }) + '\n'
+
+    // Non-blocking, so a FIFO without a reader fails instead of hanging
+    const flags =
+      fs.constants.O_WRONLY |
+      fs.constants.O_APPEND |
+      fs.constants.O_CREAT |
+      fs.constants.O_NONBLOCK
+    const handle = await fs.promises.open(this.filePath, flags, 0o644)
+    try {
+      await handle.write(line)
+    } finally {
+      await handle.close()
+    }
+  }
+}
+
+/**
+ * Run a shell command with the message on stdin. The title and type are
+ * passed in CLAUDE_COMPOSER_NOTIFICATION_TITLE and
+ * CLAUDE_COMPOSER_NOTIFICATION_TYPE.
+ */
+export class CommandBackend implements NotificationBackend {
+  name = 'command'
+  private command: string
+  private timeout: number
+
+  constructor(command: string, timeout = DEFAULT_COMMAND_TIMEOUT) {
+    this.command = command
+    this.timeout = timeout
+  }
+
+  send(notification: Notification): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, {
+        shell: true,
+        stdio: ['pipe', 'ignore', 'ignore'],
+        env: {
+          ...process.env,
+          CLAUDE_COMPOSER_NOTIFICATION_TITLE: notification.title,
+          CLAUDE_COMPOSER_NOTIFICATION_TYPE: notification.type ?? '',
+        },
+      })
+
+      const timer = setTimeout(() => {
+        child.kill()
+        reject(
+          new Error(
+            `Notification command timed out after ${this.timeout}ms: ${this.command}`,
+          ),
+        )
+      }, this.timeout)
+
+      child.on('error', error => {
+        clearTimeout(timer)
+        reject(error)
+      })
+      child.on('close', code => {
+        clearTimeout(timer)
+        if (code === 0) {
+          resolve()
+        } else {
+          reject(
+            new Error(
+              `Notification command exited with code ${code}: ${this.command}`,
+            ),
+          )
+        }
+      })
+
+      // The command may exit without reading its input
+      child.stdin.on('error', () => {})
+      child.stdin.end(notification.message)
+    })
+  }
+}
+
+/**
+ * POST each notification as JSON to a URL
+ */
+export class WebhookBackend implements NotificationBackend {
+  name = 'webhook'
+  private url: string
+  private headers: Record<string, string>
+  private timeout: number
+
+  constructor(
+    url: string,
+    headers: Record<string, string> = {},
+    timeout = DEFAULT_WEBHOOK_TIMEOUT,
+  ) {
+    this.url = url
+    this.headers = headers
+    this.timeout = timeout
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify({
+        timestamp: new Date().toISOString(),
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        sticky: notification.sticky,
+      }),
+      signal: AbortSignal.timeout(this.timeout),
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `Notification webhook returned ${response.status}: ${this.url}`,
+      )
+    }
+  }
+}
+
+export function createNotificationBackend(
+  config: NotificationBackendConfig,
+): NotificationBackend {
+  const backend = typeof config === 'string' ? { type: config } : config
+
+  switch (backend.type) {
+    case 'node-notifier':
+      return new NodeNotifierBackend()
+    case 'osc':
+      return new OscBackend('code' in backend ? backend.code : undefined)
+    case 'bell':
+      return new BellBackend()
+    case 'file':
+      return new FileBackend(backend.path)
+    case 'command':
+      return new CommandBackend(backend.command, backend.timeout)
+    case 'webhook':
+      return new WebhookBackend(backend.url, backend.headers, backend.timeout)
+  }
+}
+
+export function createNotificationBackends(
+  configs: NotificationBackendConfig[] = DEFAULT_NOTIFICATION_BACKENDS,
+): NotificationBackend[] {
+  return configs.map(createNotificationBackend)
+}
@@ -1,7 +1,13 @@
+import * as util from 'node:util'
 import notifier from 'node-notifier'
 import { MatchResult } from '../patterns/matcher'
 import { replacePlaceholders } from './template-utils'
 import { AppConfig } from '../config/schemas'
+import { formatDuration } from '../core/session-state'
+import {
+  createNotificationBackends,
+  type Notification,
+} from './notification-backends'
 
 export interface NotificationOptions {
   title?: string
@@ -13,10 +19,13 @@ export interface NotificationOptions {
 
 export { notifier }
 
+const debugLog = util.debuglog('claude-composer')
+
 export type NotificationType =
   | 'prompted_confirmation'
   | 'accepted_confirmation'
   | 'terminal_snapshot'
+  | 'turn_finished'
 
 export function getNotificationStickiness(
   type: NotificationType,
@@ -32,6 +41,8 @@ export function getNotificationStickiness(
       return appConfig.sticky_accepted_confirm_notify ?? false
     case 'terminal_snapshot':
       return appConfig.sticky_terminal_snapshot_notifications ?? false
+    case 'turn_finished':
+      return appConfig.sticky_turn_finished_notify ?? false
     default:
       // Fallback to global sticky_notifications setting if available
       return appConfig.sticky_notifications ?? false
@@ -62,10 +73,27 @@ export async function showNotification(
     sound: false,
   }
 
-  // Show local notification
-  notifier.notify({
+  const notification: Notification = {
     ...defaults,
     ...options,
+    title: options.title ?? defaults.title!,
+    sticky: isSticky,
+    type: notificationType,
+  }
+
+  // A failing backend shouldn't keep the others from delivering
+  const backends = createNotificationBackends(
+    appConfig?.notifications?.backends,
+  )
+  const results = await Promise.allSettled(
+    backends.map(backend => backend.send(notification)),
+  )
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      debugLog(
+        `Notification backend ${backends[index].name} failed: ${result.reason}`,
+      )
+    }
   })
 }
 
@@ -98,7 +126,7 @@ export function getPatternType(
 export async function showPatternNotification(
   match: MatchResult,
   appConfig?: AppConfig,
-  actionResponse?: 'Accepted' | 'Prompted',
+  actionResponse?: 'Accepted' | 'Prompted' | 'Rejected',
   actionResponseIcon?: string,
 ): Promise<void> {
   if (!match.notification || !appConfig) {
@@ -145,6 +173,22 @@ export async function showPatternNotification(
   )
 }
 
+export async function showResponseFailedNotification(
+  match: MatchResult,
+  appConfig?: AppConfig,
+): Promise<void> {
+  if (!appConfig?.show_notifications) return
+
+  await showNotification(
+    {
+      title: '⚠️ Claude Composer',
+      message: `${match.patternTitle} prompt didn't respond to the automatic answer\nIt is waiting for you in the terminal`,
+    },
+    appConfig,
+    'prompted_confirmation',
+  )
+}
+
 export async function showSnapshotNotification(
   projectName: string,
   appConfig?: AppConfig,
@@ -158,3 +202,21 @@ export async function showSnapshotNotification(
     'terminal_snapshot',
   )
 }
+
+export async function showTurnFinishedNotification(
+  projectName: string,
+  turnDuration: number,
+  appConfig?: AppConfig,
+): Promise<void> {
+  if (!appConfig?.show_notifications) return
+  if (appConfig.show_turn_finished_notify === false) return
+
+  await showNotification(
+    {
+      title: '✅ Claude Composer',
+      message: `Claude finished after ${formatDuration(turnDuration)}\nProject: ${projectName}\nWaiting for your next prompt`,
+    },
+    appConfig,
+    'turn_finished',
+  )
+}
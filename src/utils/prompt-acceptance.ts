@@ -1,23 +1,58 @@
 import type { MatchResult } from '../patterns/matcher'
-import type { AppConfig } from '../config/schemas'
+import type { AppConfig, PromptAction } from '../config/schemas'
+import { evaluateRules } from '../rules/engine'
+import { evaluateFilePolicy } from '../rules/file-policy'
+import { evaluateDomainPolicy } from '../rules/domain-policy'
+import { evaluateBashPolicy } from '../rules/bash-policy'
 
-export function shouldAcceptPrompt(
+// Escape dismisses a Claude Code confirmation dialog without approving it
+export const REJECT_RESPONSE = '\x1b'
+
+export function getPromptAction(
   match: MatchResult,
   appConfig: AppConfig | undefined,
   yolo: boolean | undefined,
-): boolean {
+): PromptAction {
+  const policyAction =
+    evaluateFilePolicy(match, appConfig) ||
+    evaluateDomainPolicy(match, appConfig) ||
+    evaluateBashPolicy(match, appConfig)
+  const ruleAction = evaluateRules(match, appConfig?.rules)
+
+  // Denied file paths, domains and commands always prompt, even when a rule
+  // or yolo mode would accept them. Only a reject rule is stricter.
+  if (policyAction === 'prompt') {
+    return ruleAction === 'reject' ? 'reject' : 'prompt'
+  }
+
+  // Explicit rules take precedence over allow lists and yolo mode
+  if (ruleAction) {
+    return ruleAction
+  }
+  if (policyAction) {
+    return policyAction
+  }
+
   // If yolo mode is enabled, accept all prompts
   if (yolo) {
-    return true
+    return 'accept'
   }
 
   // Special case: always accept inject-positional-arg-on-app-ready
   if (match.patternId === 'inject-positional-arg-on-app-ready') {
-    return true
+    return 'accept'
   }
 
-  // Otherwise, don't accept any prompts
-  return false
+  // Otherwise, leave the prompt for the user
+  return 'prompt'
+}
+
+export function shouldAcceptPrompt(
+  match: MatchResult,
+  appConfig: AppConfig | undefined,
+  yolo: boolean | undefined,
+): boolean {
+  return getPromptAction(match, appConfig, yolo) === 'accept'
 }
 
 // Legacy exports for backward compatibility (will be removed in tests)
@@ -6,7 +6,7 @@ import { stripBoxChars } from './strip-box-chars'
 export function replacePlaceholders(
   template: string,
   match: MatchResult,
-  actionResponse?: 'Accepted' | 'Prompted',
+  actionResponse?: 'Accepted' | 'Prompted' | 'Rejected',
   actionResponseIcon?: string,
 ): string {
   let result = template
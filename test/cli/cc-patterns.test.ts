@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { patterns } from '../../src/patterns/registry'
+import {
+  compareMatches,
+  formatMatch,
+  formatPattern,
+  getExpectPath,
+  loadActivePatterns,
+  matchSnapshot,
+  readSnapshotContent,
+  toExpectedMatches,
+} from '../../src/cli/cc-patterns'
+
+const editPrompt = [
+  '╭──────────────────────────────╮',
+  '│ Edit file                    │',
+  '│ - old line                   │',
+  '│ + new line                   │',
+  '│ Do you want to make this edit to src/index.ts?',
+  '│ ❯ 1. Yes                     │',
+  '╰──────────────────────────────╯',
+].join('\r\n')
+
+describe('cc-patterns test', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-patterns-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should read the terminal content of a snapshot', () => {
+    const snapshotPath = path.join(testDir, 'snapshot.json')
+    fs.writeFileSync(
+      snapshotPath,
+      JSON.stringify({ patternId: 'buffer-snapshot', terminalContent: 'hi' }),
+    )
+
+    expect(readSnapshotContent(snapshotPath)).toBe('hi')
+  })
+
+  it('should reject files that are not snapshots', () => {
+    const snapshotPath = path.join(testDir, 'snapshot.json')
+    fs.writeFileSync(snapshotPath, '{"lines": []}')
+    expect(() => readSnapshotContent(snapshotPath)).toThrow(
+      'has no terminalContent',
+    )
+
+    fs.writeFileSync(snapshotPath, 'not json')
+    expect(() => readSnapshotContent(snapshotPath)).toThrow('is not valid JSON')
+  })
+
+  it('should match the patterns against snapshot content', () => {
+    const matches = matchSnapshot(editPrompt, patterns)
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0].patternId).toBe('edit-file-prompt')
+    expect(matches[0].extractedData).toEqual({
+      editDiff:
+        '│ - old line                   │\n│ + new line                   │',
+      fileName: 'src/index.ts',
+    })
+    expect(formatMatch(matches[0])).toContain('edit-file-prompt  lines 2-5')
+  })
+
+  it('should keep expectation files next to their snapshots', () => {
+    expect(getExpectPath('/logs/snapshot-1.json')).toBe(
+      '/logs/snapshot-1.expect.json',
+    )
+  })
+
+  it('should pass when the matches meet the expectations', () => {
+    const matches = matchSnapshot(editPrompt, patterns)
+
+    expect(compareMatches(matches, toExpectedMatches(matches))).toEqual([])
+    expect(
+      compareMatches(matches, [
+        {
+          patternId: 'edit-file-prompt',
+          extractedData: { fileName: 'src/index.ts' },
+        },
+      ]),
+    ).toEqual([])
+  })
+
+  it('should describe how the matches differ from the expectations', () => {
+    const matches = matchSnapshot(editPrompt, patterns)
+
+    expect(
+      compareMatches(matches, [
+        {
+          patternId: 'edit-file-prompt',
+          extractedData: { fileName: 'README.md' },
+        },
+      ]),
+    ).toEqual([
+      'edit-file-prompt fileName: expected "README.md", got "src/index.ts"',
+    ])
+    expect(
+      compareMatches(matches, [{ patternId: 'create-file-prompt' }]),
+    ).toEqual(['expected create-file-prompt, matched edit-file-prompt'])
+    expect(compareMatches(matches, [])).toEqual([
+      'unexpected match edit-file-prompt',
+    ])
+    expect(compareMatches([], [{ patternId: 'edit-file-prompt' }])).toEqual([
+      'expected edit-file-prompt, nothing matched',
+    ])
+  })
+})
+
+describe('cc-patterns list and show', () => {
+  let testDir: string
+  let patternsDir: string
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-patterns-list-'))
+    patternsDir = path.join(testDir, 'config', 'patterns')
+    fs.mkdirSync(patternsDir, { recursive: true })
+
+    vi.spyOn(process, 'cwd').mockReturnValue(testDir)
+    vi.stubEnv('CLAUDE_COMPOSER_CONFIG_DIR', path.join(testDir, 'config'))
+    vi.stubEnv('CLAUDE_PATTERNS_PATH', '')
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllEnvs()
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should list built-in and dynamic patterns with their source', async () => {
+    const active = await loadActivePatterns()
+
+    expect(active.find(a => a.pattern.id === 'edit-file-prompt')).toMatchObject(
+      { source: 'built-in' },
+    )
+    expect(
+      active.filter(a => a.source === 'dynamic').map(a => a.pattern.id),
+    ).toEqual(['allow-trusted-root', 'app-ready-handler'])
+  })
+
+  it('should record the file a pattern or override came from', async () => {
+    const filePath = path.join(patternsDir, 'custom.yaml')
+    fs.writeFileSync(
+      filePath,
+      `
+patterns:
+  - id: edit-file-prompt
+    triggerText: Edit
+  - id: deploy-prompt
+    title: Deploy
+    pattern: ['Deploy to production?']
+    response: 'y'
+`,
+    )
+
+    const active = await loadActivePatterns()
+    const edit = active.find(a => a.pattern.id === 'edit-file-prompt')!
+    const deploy = active.find(a => a.pattern.id === 'deploy-prompt')!
+
+    expect(edit).toMatchObject({
+      source: 'file',
+      sourcePath: filePath,
+      overrides: 'built-in',
+    })
+    expect(edit.pattern.triggerText).toBe('Edit')
+    expect(edit.pattern.response).toBe('1')
+    expect(formatPattern(deploy)).toBe(
+      [
+        `deploy-prompt (file ${filePath})`,
+        '  Title: Deploy',
+        '  Sequence:',
+        '    Deploy to production?',
+        '  Response: "y"',
+      ].join('\n'),
+    )
+  })
+
+  it('should resolve function responses only when asked', async () => {
+    fs.writeFileSync(
+      path.join(testDir, 'config', 'config.yaml'),
+      'dangerously_allow_in_untrusted_root: true\n',
+    )
+
+    const active = await loadActivePatterns()
+    const trust = active.find(a => a.pattern.id === 'allow-trusted-root')!
+
+    expect(formatPattern(trust)).toContain('  Response: computed when matched')
+    expect(formatPattern(trust, true)).toContain(
+      '  Response: computed when matched, currently ["1"]',
+    )
+  })
+})
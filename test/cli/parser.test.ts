@@ -110,5 +110,57 @@ describe('CLI Parser', () => {
       expect(opts.toolset).toEqual(['custom-tools'])
       expect(opts.yolo).toBe(true)
     })
+
+    it('should parse multiple ruleset flags', () => {
+      const program = createClaudeComposerCommand()
+      program.parse(
+        [
+          'node',
+          'claude-composer',
+          '--ruleset',
+          'internal:safe',
+          '--ruleset',
+          'project:backend',
+        ],
+        { from: 'user' },
+      )
+      const opts = program.opts()
+      expect(opts.ruleset).toEqual(['internal:safe', 'project:backend'])
+    })
+
+    it('should collect repeated then flags in order', () => {
+      const program = createClaudeComposerCommand()
+      program.parse(
+        [
+          'node',
+          'claude-composer',
+          '--prompts-file',
+          'chores.md',
+          '--then',
+          'run the tests',
+          '--then',
+          'fix any failures',
+        ],
+        { from: 'user' },
+      )
+      const opts = program.opts()
+      expect(opts.promptsFile).toBe('chores.md')
+      expect(opts.then).toEqual(['run the tests', 'fix any failures'])
+    })
+
+    it('should parse record with and without a path', () => {
+      const withoutPath = createClaudeComposerCommand()
+      withoutPath.parse(['node', 'claude-composer', '--record'], {
+        from: 'user',
+      })
+      expect(withoutPath.opts().record).toBe(true)
+
+      const withPath = createClaudeComposerCommand()
+      withPath.parse(
+        ['node', 'claude-composer', '--record', 'bug-report.cast'],
+        { from: 'user' },
+      )
+      expect(withPath.opts().record).toBe('bug-report.cast')
+    })
   })
 })
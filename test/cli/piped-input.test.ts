@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Readable } from 'stream'
+import {
+  PIPED_INPUT_INLINE_LIMIT,
+  combinePipedInput,
+  readPipedInput,
+} from '../../src/cli/piped-input'
+
+describe('readPipedInput', () => {
+  it('should read the whole stream', async () => {
+    const stream = Readable.from([Buffer.from('first\n'), 'second\n'])
+
+    await expect(readPipedInput(stream)).resolves.toBe('first\nsecond\n')
+  })
+
+  it('should keep multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('✻ done')
+    const stream = Readable.from([bytes.subarray(0, 1), bytes.subarray(1)])
+
+    await expect(readPipedInput(stream)).resolves.toBe('✻ done')
+  })
+})
+
+describe('combinePipedInput', () => {
+  it('should add short input after the prompt', () => {
+    const saveToFile = vi.fn()
+
+    expect(
+      combinePipedInput(
+        'explain this',
+        'TypeError: x is undefined\n',
+        saveToFile,
+      ),
+    ).toBe('explain this\n\nTypeError: x is undefined')
+    expect(saveToFile).not.toHaveBeenCalled()
+  })
+
+  it('should use short input as the prompt when there is none', () => {
+    expect(combinePipedInput(undefined, 'fix the build\n', vi.fn())).toBe(
+      'fix the build',
+    )
+  })
+
+  it('should remove line endings, escape sequences and control characters that would act as keys', () => {
+    const input =
+      '\x1b[31merror\x1b[0m: build failed\r\n' +
+      '\x1b]8;;https://example.com\x07link\x1b]8;;\x07\r' +
+      'stopped\x03 here\tok\r\n'
+
+    expect(combinePipedInput('explain this', input, vi.fn())).toBe(
+      'explain this\n\nerror: build failed\nlink\nstopped here\tok',
+    )
+  })
+
+  it('should save long input to a file and reference it', () => {
+    const input = 'log line\n'.repeat(PIPED_INPUT_INLINE_LIMIT)
+    const saveToFile = vi.fn(() => '/tmp/piped.txt')
+
+    expect(combinePipedInput('explain this', input, saveToFile)).toBe(
+      `explain this\n\nThe piped input (${PIPED_INPUT_INLINE_LIMIT} lines) is saved in /tmp/piped.txt`,
+    )
+    expect(saveToFile).toHaveBeenCalledWith(input.trimEnd())
+    expect(combinePipedInput(undefined, input, saveToFile)).toBe(
+      'Read the piped input in /tmp/piped.txt',
+    )
+  })
+})
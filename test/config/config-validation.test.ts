@@ -161,6 +161,80 @@ describe('Config Validation', () => {
         expect(result.data.mode).toBeUndefined()
       }
     })
+
+    it('should accept response verification settings', () => {
+      const result = validateAppConfig({
+        verify_responses: true,
+        response_verification_timeout: 2000,
+        response_retry_strategies: ['enter', 'arrow-select'],
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject unknown retry strategies', () => {
+      const result = validateAppConfig({
+        response_retry_strategies: ['resend', 'click'],
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual([
+          'response_retry_strategies',
+          1,
+        ])
+      }
+    })
+
+    it('should accept turn finished notification settings', () => {
+      const result = validateAppConfig({
+        show_turn_finished_notify: true,
+        sticky_turn_finished_notify: false,
+        turn_finished_notify_delay: 0,
+        turn_finished_notify_min_duration: 60000,
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject a negative turn finished delay', () => {
+      const result = validateAppConfig({
+        turn_finished_notify_delay: -1,
+      })
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should accept notification backends by name or with settings', () => {
+      const result = validateAppConfig({
+        notifications: {
+          backends: [
+            'node-notifier',
+            'bell',
+            { type: 'osc', code: 777 },
+            { type: 'webhook', url: 'https://example.com/hook' },
+          ],
+        },
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject unknown notification backends', () => {
+      const result = validateAppConfig({
+        notifications: { backends: ['email'] },
+      })
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject backends missing required settings', () => {
+      const result = validateAppConfig({
+        notifications: { backends: [{ type: 'file' }] },
+      })
+
+      expect(result.success).toBe(false)
+    })
   })
 
   describe('ToolsetConfig validation', () => {
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import dedent from 'dedent'
+import {
+  loadPromptsFile,
+  parseMarkdownPromptList,
+} from '../../src/config/loader'
+
+describe('Prompts files', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'claude-composer-prompts-test-'),
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should load a YAML list of prompts', async () => {
+    const filePath = path.join(testDir, 'chores.yaml')
+    fs.writeFileSync(filePath, '- Update the changelog\n- Bump the version\n')
+
+    expect(await loadPromptsFile(filePath)).toEqual([
+      'Update the changelog',
+      'Bump the version',
+    ])
+  })
+
+  it('should load prompts under a prompts key', async () => {
+    const filePath = path.join(testDir, 'chores.yml')
+    fs.writeFileSync(
+      filePath,
+      'prompts:\n  - Update the changelog\n  - |\n    Bump the version\n    and tag it\n',
+    )
+
+    expect(await loadPromptsFile(filePath)).toEqual([
+      'Update the changelog',
+      'Bump the version\nand tag it\n',
+    ])
+  })
+
+  it('should load the list items of a markdown file', async () => {
+    const filePath = path.join(testDir, 'chores.md')
+    fs.writeFileSync(
+      filePath,
+      dedent`
+        # Release chores
+
+        1. Update the changelog
+        2. Bump the version
+           in package.json and the docs
+        - Run the tests
+
+        Notes outside the list are ignored.
+      `,
+    )
+
+    expect(await loadPromptsFile(filePath)).toEqual([
+      'Update the changelog',
+      'Bump the version\nin package.json and the docs',
+      'Run the tests',
+    ])
+  })
+
+  it('should keep paragraphs within a markdown item', () => {
+    expect(
+      parseMarkdownPromptList('- First paragraph\n\n  Second paragraph\n'),
+    ).toEqual(['First paragraph\n\nSecond paragraph'])
+  })
+
+  it('should throw when the file does not exist', async () => {
+    await expect(
+      loadPromptsFile(path.join(testDir, 'missing.yaml')),
+    ).rejects.toThrow('Prompts file not found')
+  })
+
+  it('should throw for invalid prompts files', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const filePath = path.join(testDir, 'chores.yaml')
+    fs.writeFileSync(filePath, 'prompts: Update the changelog\n')
+
+    await expect(loadPromptsFile(filePath)).rejects.toThrow(
+      'prompts file validation failed',
+    )
+  })
+})
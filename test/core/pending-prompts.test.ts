@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { PendingPrompts } from '../../src/core/pending-prompts'
+import type { MatchResult } from '../../src/patterns/matcher'
+import { createMatch } from '../utils/test-matches'
+
+function createEditMatch(fileName: string): MatchResult {
+  return createMatch(
+    'edit-file-prompt',
+    { fileName },
+    {
+      patternTitle: 'Edit file',
+      matchedText: 'Do you want to make this edit',
+      fullMatchedContent: 'Do you want to make this edit',
+    },
+  )
+}
+
+describe('PendingPrompts', () => {
+  let pending: PendingPrompts
+
+  beforeEach(() => {
+    pending = new PendingPrompts()
+  })
+
+  it('should list prompts with ids and extracted data', () => {
+    pending.add(createEditMatch('a.ts'))
+    pending.add(createEditMatch('b.ts'))
+
+    expect(pending.list()).toMatchObject([
+      {
+        id: '1',
+        patternId: 'edit-file-prompt',
+        patternTitle: 'Edit file',
+        extractedData: { fileName: 'a.ts' },
+      },
+      { id: '2', extractedData: { fileName: 'b.ts' } },
+    ])
+  })
+
+  it('should take the oldest prompt without an id', () => {
+    pending.add(createEditMatch('a.ts'))
+    pending.add(createEditMatch('b.ts'))
+
+    expect(pending.take()?.prompt.id).toBe('1')
+    expect(pending.take('2')?.match.extractedData).toEqual({
+      fileName: 'b.ts',
+    })
+    expect(pending.take()).toBeUndefined()
+  })
+
+  it('should not take unknown ids', () => {
+    pending.add(createEditMatch('a.ts'))
+
+    expect(pending.take('7')).toBeUndefined()
+    expect(pending.list()).toHaveLength(1)
+  })
+
+  it('should forget prompts that left the screen', () => {
+    pending.add(createEditMatch('a.ts'))
+    pending.add(createEditMatch('b.ts'))
+
+    pending.prune(match => match.extractedData?.fileName === 'b.ts')
+
+    expect(pending.list().map(prompt => prompt.id)).toEqual(['2'])
+  })
+})
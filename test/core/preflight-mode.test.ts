@@ -176,5 +176,37 @@ describe('Preflight - Mode handling', () => {
 
       expect(result.appConfig.mode).toBe('plan')
     })
+
+    it('should accept mode auto-accept', async () => {
+      fs.writeFileSync(configPath, 'yolo: false\n')
+
+      const result = await runPreflight(
+        ['node', 'claude-composer', '--mode', 'auto-accept'],
+        {
+          configPath,
+        },
+      )
+
+      expect(result.appConfig.mode).toBe('auto-accept')
+    })
+
+    it('should exit for unknown modes', async () => {
+      fs.writeFileSync(configPath, 'yolo: false\n')
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await runPreflight(
+        ['node', 'claude-composer', '--mode', 'fast'],
+        {
+          configPath,
+        },
+      )
+
+      expect(result.shouldExit).toBe(true)
+      expect(result.exitCode).toBe(1)
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid mode "fast"'),
+      )
+      errorSpy.mockRestore()
+    })
   })
 })
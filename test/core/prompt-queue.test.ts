@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PromptQueue } from '../../src/core/prompt-queue'
+import type {
+  SessionState,
+  SessionStateEvent,
+} from '../../src/core/session-state'
+
+function stateEvent(
+  state: SessionState,
+  previousState: SessionState,
+): SessionStateEvent {
+  return { state, previousState, timestamp: Date.now(), duration: 0 }
+}
+
+describe('PromptQueue', () => {
+  let submit: ReturnType<typeof vi.fn>
+  let queue: PromptQueue
+
+  beforeEach(() => {
+    submit = vi.fn()
+    queue = new PromptQueue(['second', 'third'], submit)
+  })
+
+  it('should ignore state changes before it is started', () => {
+    queue.handleStateChange(stateEvent('working', 'starting'))
+    queue.handleStateChange(stateEvent('idle', 'working'))
+
+    expect(submit).not.toHaveBeenCalled()
+  })
+
+  it('should wait for the turn to start before submitting on idle', () => {
+    queue.start()
+
+    queue.handleStateChange(stateEvent('idle', 'starting'))
+    expect(submit).not.toHaveBeenCalled()
+  })
+
+  it('should submit the next prompt once the turn has finished', () => {
+    queue.start()
+
+    queue.handleStateChange(stateEvent('working', 'idle'))
+    queue.handleStateChange(stateEvent('awaiting-confirmation', 'working'))
+    queue.handleStateChange(stateEvent('working', 'awaiting-confirmation'))
+    expect(submit).not.toHaveBeenCalled()
+
+    queue.handleStateChange(stateEvent('idle', 'working'))
+    expect(submit).toHaveBeenCalledWith('second')
+    expect(queue.getRemainingCount()).toBe(1)
+  })
+
+  it('should submit every prompt in order and then stop', () => {
+    queue.start()
+
+    for (const expected of ['second', 'third']) {
+      queue.handleStateChange(stateEvent('working', 'idle'))
+      queue.handleStateChange(stateEvent('idle', 'working'))
+      expect(submit).toHaveBeenLastCalledWith(expected)
+    }
+
+    queue.handleStateChange(stateEvent('working', 'idle'))
+    queue.handleStateChange(stateEvent('idle', 'working'))
+    expect(submit).toHaveBeenCalledTimes(2)
+    expect(queue.getRemainingCount()).toBe(0)
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, vi, MockedFunction } from 'vitest'
-import { ResponseQueue } from '../../src/core/response-queue'
+import {
+  DEFAULT_RETRY_STRATEGIES,
+  ResponseQueue,
+  type ResponseVerification,
+  compileResponse,
+} from '../../src/core/response-queue'
+import { readMode } from '../../src/core/modes'
 import * as pty from '@homebridge/node-pty-prebuilt-multiarch'
 import { ChildProcess } from 'child_process'
 import { Writable } from 'stream'
@@ -191,6 +197,360 @@ describe('ResponseQueue', () => {
       expect(processingAfterFirst).toBe(true)
       expect(processingAfterSecond).toBe(true)
     })
+
+    it('should warn and keep going when a response throws', async () => {
+      const onWarning = vi.fn()
+      queue.setWarningHandler(onWarning)
+      vi.mocked(mockPty.write).mockImplementationOnce(() => {
+        throw new Error('pty closed')
+      })
+
+      queue.enqueue('first')
+      queue.enqueue('second')
+      await vi.runAllTimersAsync()
+
+      expect(onWarning).toHaveBeenCalledWith(
+        expect.stringContaining('pty closed'),
+      )
+      expect(mockPty.write).toHaveBeenLastCalledWith('second')
+      expect(queue.isProcessing()).toBe(false)
+
+      queue.enqueue('third')
+      await vi.runAllTimersAsync()
+      expect(mockPty.write).toHaveBeenLastCalledWith('third')
+    })
+  })
+
+  describe('Response Steps', () => {
+    beforeEach(() => {
+      queue.setTargets(mockPty, undefined)
+    })
+
+    it('should compile named keys, text and waits', () => {
+      expect(
+        compileResponse([
+          { key: 'shift+tab' },
+          { wait: 400 },
+          { text: 'plan this' },
+          500,
+          { key: 'ENTER' },
+          { key: 'ctrl+c' },
+          { waitFor: 'Done' },
+        ]),
+      ).toEqual([
+        { type: 'write', data: '\x1b[Z' },
+        { type: 'wait', ms: 400 },
+        { type: 'write', data: 'plan this' },
+        { type: 'wait', ms: 500 },
+        { type: 'write', data: '\r' },
+        { type: 'write', data: '\x03' },
+        { type: 'waitFor', pattern: 'Done', gone: false, timeout: 10000 },
+      ])
+    })
+
+    it('should throw for unknown keys', () => {
+      expect(() => compileResponse([{ key: 'hyper+q' }])).toThrow(
+        'Unknown key "hyper+q" in response',
+      )
+    })
+
+    it('should write steps with their pauses', async () => {
+      queue.enqueue([{ key: 'shift+tab' }, { wait: 400 }, { key: 'enter' }])
+
+      await vi.advanceTimersByTimeAsync(399)
+      expect(mockPty.write).toHaveBeenCalledTimes(1)
+      expect(mockPty.write).toHaveBeenCalledWith('\x1b[Z')
+
+      await vi.advanceTimersByTimeAsync(1)
+      expect(mockPty.write).toHaveBeenLastCalledWith('\r')
+    })
+
+    it('should tell the write listener what was sent', async () => {
+      const onWrite = vi.fn()
+      queue.setWriteListener(onWrite)
+      queue.enqueue([{ text: 'yes' }, { key: 'enter' }])
+
+      await vi.runAllTimersAsync()
+      expect(onWrite.mock.calls).toEqual([['yes'], ['\r']])
+    })
+
+    it('should wait for text to appear on screen', async () => {
+      let screen = 'Loading'
+      queue.setScreenReader(() => screen)
+      queue.enqueue([{ waitFor: '? for shortcuts' }, { text: 'hello' }])
+
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(mockPty.write).not.toHaveBeenCalled()
+
+      screen = '> \n? for shortcuts'
+      await vi.runAllTimersAsync()
+      expect(mockPty.write).toHaveBeenCalledWith('hello')
+    })
+
+    it('should wait for a regex to match the screen', async () => {
+      let screen = ''
+      queue.setScreenReader(() => screen)
+      queue.enqueue([{ waitFor: '/plan mode on/' }, { key: 'enter' }])
+
+      await vi.advanceTimersByTimeAsync(200)
+      expect(mockPty.write).not.toHaveBeenCalled()
+
+      screen = '⏸ plan mode on (shift+tab to cycle)'
+      await vi.runAllTimersAsync()
+      expect(mockPty.write).toHaveBeenCalledWith('\r')
+    })
+
+    it('should wait for text to disappear from the screen', async () => {
+      let screen = '? for shortcuts'
+      queue.setScreenReader(() => screen)
+      queue.enqueue([{ waitForGone: '? for shortcuts' }, { key: 'enter' }])
+
+      await vi.advanceTimersByTimeAsync(200)
+      expect(mockPty.write).not.toHaveBeenCalled()
+
+      screen = '> hello'
+      await vi.runAllTimersAsync()
+      expect(mockPty.write).toHaveBeenCalledWith('\r')
+    })
+
+    it('should use the timeout of the step', async () => {
+      queue.setScreenReader(() => 'Loading')
+      queue.enqueue([{ waitFor: 'Ready', timeout: 500 }, { text: 'hello' }])
+      queue.enqueue('next')
+
+      await vi.advanceTimersByTimeAsync(550)
+      expect(mockPty.write).toHaveBeenCalledTimes(1)
+      expect(mockPty.write).toHaveBeenCalledWith('next')
+    })
+
+    it('should abandon the rest of a response when the text never appears', async () => {
+      queue.setScreenReader(() => 'Loading')
+      queue.enqueue([{ waitFor: '? for shortcuts' }, { text: 'hello' }])
+      queue.enqueue('next')
+
+      await vi.runAllTimersAsync()
+      expect(mockPty.write).toHaveBeenCalledTimes(1)
+      expect(mockPty.write).toHaveBeenCalledWith('next')
+    })
+
+    it('should warn with the step when it times out', async () => {
+      const onWarning = vi.fn()
+      queue.setWarningHandler(onWarning)
+      queue.setScreenReader(() => '? for shortcuts')
+      queue.enqueue([{ waitForGone: '? for shortcuts' }, { text: 'hello' }])
+      queue.enqueue([{ waitFor: '/plan mode on/' }, { text: 'hello' }])
+
+      await vi.runAllTimersAsync()
+      expect(mockPty.write).not.toHaveBeenCalled()
+      expect(onWarning.mock.calls).toEqual([
+        [
+          'Timed out waiting for waitForGone "? for shortcuts", skipped the rest of the response',
+        ],
+        [
+          'Timed out waiting for waitFor /plan mode on/, skipped the rest of the response',
+        ],
+      ])
+    })
+  })
+
+  describe('Mode Steps', () => {
+    const statusLines: Record<string, string> = {
+      act: '? for shortcuts',
+      'auto-accept': '⏵⏵ accept edits on (shift+tab to cycle)',
+      plan: '⏸ plan mode on (shift+tab to cycle)',
+    }
+    const cycle = ['act', 'auto-accept', 'plan']
+    let mode: string
+    let onWarning: ReturnType<typeof vi.fn>
+
+    const screen = () =>
+      ['> Plan mode on is described in the docs', '╭───╮', '│ > │', '╰───╯']
+        .concat(statusLines[mode])
+        .join('\n')
+
+    beforeEach(() => {
+      mode = 'act'
+      onWarning = vi.fn()
+      vi.mocked(mockPty.write).mockImplementation(data => {
+        if (data === '\x1b[Z') {
+          // The indicator updates a little after the key press
+          setTimeout(() => {
+            mode = cycle[(cycle.indexOf(mode) + 1) % cycle.length]
+          }, 120)
+        }
+      })
+      queue.setTargets(mockPty, undefined)
+      queue.setScreenReader(screen)
+      queue.setWarningHandler(onWarning)
+    })
+
+    it('should read the mode from the status line', () => {
+      expect(readMode(screen())).toBe('act')
+      mode = 'plan'
+      expect(readMode(screen())).toBe('plan')
+      mode = 'auto-accept'
+      expect(readMode(screen())).toBe('auto-accept')
+    })
+
+    it('should cycle until the requested mode is shown', async () => {
+      queue.enqueue([{ mode: 'plan' }, { key: 'enter' }])
+
+      await vi.runAllTimersAsync()
+
+      expect(mode).toBe('plan')
+      expect(mockPty.write).toHaveBeenCalledTimes(3)
+      expect(mockPty.write).toHaveBeenLastCalledWith('\r')
+      expect(onWarning).not.toHaveBeenCalled()
+    })
+
+    it('should start from the mode that is already on', async () => {
+      mode = 'auto-accept'
+      queue.enqueue([{ mode: 'act' }])
+
+      await vi.runAllTimersAsync()
+
+      expect(mode).toBe('act')
+      expect(mockPty.write).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not press anything when already in the mode', async () => {
+      mode = 'plan'
+      queue.enqueue([{ mode: 'plan' }])
+
+      await vi.runAllTimersAsync()
+
+      expect(mockPty.write).not.toHaveBeenCalled()
+    })
+
+    it('should warn and skip the rest when the mode never changes', async () => {
+      vi.mocked(mockPty.write).mockImplementation(() => {})
+      queue.enqueue([{ mode: 'plan' }, { text: 'hello' }])
+
+      await vi.runAllTimersAsync()
+
+      expect(mockPty.write).toHaveBeenCalledTimes(1)
+      expect(mockPty.write).not.toHaveBeenCalledWith('hello')
+      expect(onWarning).toHaveBeenCalledWith(
+        expect.stringContaining("Couldn't switch Claude Code to plan mode"),
+      )
+    })
+  })
+
+  describe('Response Verification', () => {
+    let writes: string[]
+
+    function createVerification(
+      dismissAfterWrites: number,
+      overrides: Partial<ResponseVerification> = {},
+    ): ResponseVerification {
+      return {
+        isDismissed: () => writes.length >= dismissAfterWrites,
+        strategies: ['resend', 'enter', 'arrow-select'],
+        timeout: 500,
+        onFailed: vi.fn(),
+        ...overrides,
+      }
+    }
+
+    beforeEach(() => {
+      writes = []
+      vi.mocked(mockPty.write).mockImplementation(data => {
+        writes.push(data as string)
+      })
+      queue.setTargets(mockPty, undefined)
+    })
+
+    it('should not retry when the prompt is dismissed', async () => {
+      const verification = createVerification(1)
+      queue.enqueue('1', 0, verification)
+
+      await vi.runAllTimersAsync()
+
+      expect(writes).toEqual(['1'])
+      expect(verification.onFailed).not.toHaveBeenCalled()
+    })
+
+    it('should retry with each strategy until the prompt is dismissed', async () => {
+      const verification = createVerification(3)
+      queue.enqueue('2', 0, verification)
+
+      await vi.advanceTimersByTimeAsync(499)
+      expect(writes).toEqual(['2'])
+
+      await vi.runAllTimersAsync()
+      expect(writes).toEqual(['2', '2', '\x1b[A'.repeat(9) + '\x1b[B' + '\r'])
+      expect(verification.onFailed).not.toHaveBeenCalled()
+    })
+
+    it('should only press enter to retry the first option', async () => {
+      const first = createVerification(2, { strategies: ['enter'] })
+      queue.enqueue('1', 0, first)
+      await vi.runAllTimersAsync()
+      expect(writes).toEqual(['1', '\r'])
+
+      writes = []
+      const second = createVerification(Infinity, { strategies: ['enter'] })
+      queue.enqueue('2', 0, second)
+      await vi.runAllTimersAsync()
+      expect(writes).toEqual(['2'])
+      expect(second.onFailed).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not retry by default', () => {
+      expect(DEFAULT_RETRY_STRATEGIES).toEqual([])
+    })
+
+    it('should bring the screen up to date before retrying', async () => {
+      let flushed = false
+      const verification = createVerification(Infinity, {
+        isDismissed: () => flushed,
+        flush: vi.fn(async () => {
+          flushed = true
+        }),
+      })
+      queue.enqueue('1', 0, verification)
+
+      await vi.runAllTimersAsync()
+
+      expect(verification.flush).toHaveBeenCalledTimes(1)
+      expect(writes).toEqual(['1'])
+      expect(verification.onFailed).not.toHaveBeenCalled()
+    })
+
+    it('should select numbered options with the arrow keys', async () => {
+      const verification = createVerification(2, {
+        strategies: ['arrow-select'],
+      })
+      queue.enqueue('2', 0, verification)
+
+      await vi.runAllTimersAsync()
+
+      expect(writes[1]).toBe('\x1b[A'.repeat(9) + '\x1b[B' + '\r')
+    })
+
+    it('should never select an option to retry responses that are not options', async () => {
+      const verification = createVerification(Infinity, {
+        strategies: ['arrow-select', 'enter'],
+      })
+      queue.enqueue('\x1b', 0, verification)
+
+      await vi.runAllTimersAsync()
+
+      expect(writes).toEqual(['\x1b'])
+      expect(verification.onFailed).toHaveBeenCalledTimes(1)
+    })
+
+    it('should give up after the last strategy', async () => {
+      const verification = createVerification(Infinity)
+      queue.enqueue('1', 0, verification)
+      queue.enqueue('next')
+
+      await vi.runAllTimersAsync()
+
+      expect(verification.onFailed).toHaveBeenCalledTimes(1)
+      expect(writes.at(-1)).toBe('next')
+      expect(queue.isProcessing()).toBe(false)
+    })
   })
 
   describe('Edge Cases', () => {
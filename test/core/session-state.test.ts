@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  SessionStateTracker,
+  classifyScreen,
+  formatDuration,
+  type SessionStateEvent,
+} from '../../src/core/session-state'
+
+const IDLE_SCREEN = '╭───╮\n│ > │\n╰───╯\n  ? for shortcuts'
+const TYPING_SCREEN = '╭───╮\n│ > run the tests │\n╰───╯'
+const WORKING_SCREEN =
+  '✻ Thinking… (3s · esc to interrupt)\n╭───╮\n│ > │\n╰───╯\n  ? for shortcuts'
+const CONFIRMATION_SCREEN =
+  'Do you want to proceed?\n❯ 1. Yes\n  2. No, and tell Claude what to do differently'
+
+describe('classifyScreen', () => {
+  it('should recognise each state from the screen', () => {
+    expect(classifyScreen(WORKING_SCREEN)).toBe('working')
+    expect(classifyScreen(CONFIRMATION_SCREEN)).toBe('awaiting-confirmation')
+    expect(classifyScreen(IDLE_SCREEN)).toBe('idle')
+    expect(classifyScreen('  ⏵⏵ accept edits on (shift+tab to cycle)')).toBe(
+      'idle',
+    )
+  })
+
+  it('should return undefined for screens without a known state', () => {
+    expect(classifyScreen(TYPING_SCREEN)).toBeUndefined()
+    expect(classifyScreen('')).toBeUndefined()
+  })
+})
+
+describe('formatDuration', () => {
+  it('should format seconds, minutes and hours', () => {
+    expect(formatDuration(45_000)).toBe('45s')
+    expect(formatDuration(252_000)).toBe('4m12s')
+    expect(formatDuration(65_000)).toBe('1m05s')
+    expect(formatDuration(3_780_000)).toBe('1h03m')
+  })
+})
+
+describe('SessionStateTracker', () => {
+  let screen: string | null
+  let events: SessionStateEvent[]
+  let tracker: SessionStateTracker
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    screen = null
+    events = []
+    tracker = new SessionStateTracker(() => screen)
+    tracker.onChange(event => events.push(event))
+  })
+
+  afterEach(() => {
+    tracker.dispose()
+    vi.useRealTimers()
+  })
+
+  function output(next: string): void {
+    screen = next
+    tracker.activity()
+  }
+
+  it('should start in the starting state', () => {
+    expect(tracker.getState()).toBe('starting')
+
+    output(TYPING_SCREEN)
+    vi.advanceTimersByTime(5000)
+    expect(tracker.getState()).toBe('starting')
+    expect(events).toHaveLength(0)
+  })
+
+  it('should emit working, then idle with the turn duration', () => {
+    output(WORKING_SCREEN)
+    vi.advanceTimersByTime(200)
+    expect(events.map(e => e.state)).toEqual(['working'])
+
+    vi.advanceTimersByTime(251_800)
+    output(IDLE_SCREEN)
+    vi.advanceTimersByTime(200)
+    expect(tracker.getState()).toBe('working')
+
+    vi.advanceTimersByTime(1000)
+    expect(tracker.getState()).toBe('idle')
+    expect(events[1]).toMatchObject({
+      state: 'idle',
+      previousState: 'working',
+      timestamp: Date.now(),
+      turnDuration: 253_000,
+    })
+  })
+
+  it('should not count a brief idle screen as idle', () => {
+    output(IDLE_SCREEN)
+    vi.advanceTimersByTime(500)
+    output(WORKING_SCREEN)
+    vi.advanceTimersByTime(2000)
+
+    expect(events.map(e => e.state)).toEqual(['working'])
+  })
+
+  it('should emit awaiting-confirmation without ending the turn', () => {
+    output(WORKING_SCREEN)
+    vi.advanceTimersByTime(200)
+    output(CONFIRMATION_SCREEN)
+    vi.advanceTimersByTime(200)
+    output(WORKING_SCREEN)
+    vi.advanceTimersByTime(200)
+
+    expect(events.map(e => e.state)).toEqual([
+      'working',
+      'awaiting-confirmation',
+      'working',
+    ])
+    expect(events.every(e => e.turnDuration === undefined)).toBe(true)
+  })
+
+  it('should throttle screen checks while output streams', () => {
+    const readScreen = vi.fn(() => WORKING_SCREEN)
+    const throttled = new SessionStateTracker(readScreen)
+
+    for (let i = 0; i < 10; i++) {
+      throttled.activity()
+      vi.advanceTimersByTime(50)
+    }
+
+    expect(readScreen).toHaveBeenCalledTimes(2)
+    throttled.dispose()
+  })
+
+  it('should emit exited and stop checking the screen', () => {
+    output(WORKING_SCREEN)
+    vi.advanceTimersByTime(3000)
+    tracker.markExited()
+
+    expect(events[1]).toMatchObject({
+      state: 'exited',
+      previousState: 'working',
+      turnDuration: 2800,
+    })
+
+    output(IDLE_SCREEN)
+    vi.advanceTimersByTime(2000)
+    expect(tracker.getState()).toBe('exited')
+    expect(vi.getTimerCount()).toBe(0)
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { TurnFinishedNotifier } from '../../src/core/turn-notifier'
+import type {
+  SessionState,
+  SessionStateEvent,
+} from '../../src/core/session-state'
+
+function stateEvent(
+  state: SessionState,
+  turnDuration?: number,
+): SessionStateEvent {
+  return {
+    state,
+    previousState: 'working',
+    timestamp: Date.now(),
+    duration: 0,
+    turnDuration,
+  }
+}
+
+describe('TurnFinishedNotifier', () => {
+  let onFinished: ReturnType<typeof vi.fn>
+  let notifier: TurnFinishedNotifier
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    onFinished = vi.fn()
+    notifier = new TurnFinishedNotifier(
+      { delay: 5000, minDuration: 30000 },
+      onFinished,
+    )
+  })
+
+  afterEach(() => {
+    notifier.cancel()
+    vi.useRealTimers()
+  })
+
+  it('should call back after staying idle for the delay', () => {
+    notifier.handleStateChange(stateEvent('idle', 60000))
+
+    vi.advanceTimersByTime(4999)
+    expect(onFinished).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(onFinished).toHaveBeenCalledWith(60000)
+  })
+
+  it('should ignore turns shorter than the minimum duration', () => {
+    notifier.handleStateChange(stateEvent('idle', 10000))
+
+    vi.advanceTimersByTime(10000)
+    expect(onFinished).not.toHaveBeenCalled()
+  })
+
+  it('should ignore idle without a finished turn', () => {
+    notifier.handleStateChange(stateEvent('idle'))
+
+    vi.advanceTimersByTime(10000)
+    expect(onFinished).not.toHaveBeenCalled()
+  })
+
+  it('should cancel when the state changes before the delay', () => {
+    notifier.handleStateChange(stateEvent('idle', 60000))
+    vi.advanceTimersByTime(2000)
+    notifier.handleStateChange(stateEvent('working'))
+
+    vi.advanceTimersByTime(10000)
+    expect(onFinished).not.toHaveBeenCalled()
+  })
+
+  it('should cancel when asked, e.g. when the user starts typing', () => {
+    notifier.handleStateChange(stateEvent('idle', 60000))
+    notifier.cancel()
+
+    vi.advanceTimersByTime(10000)
+    expect(onFinished).not.toHaveBeenCalled()
+  })
+
+  it('should use default timings when none are configured', () => {
+    const defaults = new TurnFinishedNotifier({}, onFinished)
+
+    defaults.handleStateChange(stateEvent('idle', 29000))
+    vi.advanceTimersByTime(10000)
+    expect(onFinished).not.toHaveBeenCalled()
+
+    defaults.handleStateChange(stateEvent('idle', 30000))
+    vi.advanceTimersByTime(5000)
+    expect(onFinished).toHaveBeenCalledWith(30000)
+  })
+})
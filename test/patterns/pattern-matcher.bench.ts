@@ -0,0 +1,83 @@
+import { bench, describe } from 'vitest'
+import { PatternMatcher } from '../../src/patterns/matcher'
+import { patterns } from '../../src/patterns/registry'
+import type { TerminalViewport } from '../../src/terminal/types'
+
+// A long session: tool output and answered prompts scrolled into the
+// scrollback, with a bash command prompt on screen
+function createSessionBuffer(lineCount: number): string[] {
+  const lines: string[] = []
+  for (let i = 0; lines.length < lineCount; i++) {
+    lines.push(
+      `⏺ Bash(npm test -- --run src/module-${i}.test.ts)`,
+      `  ⎿  ✓ src/module-${i}.test.ts (12 tests) ${i % 90}ms`,
+      '',
+      `⏺ Update(src/module-${i}.ts)`,
+      `  ⎿  Updated src/module-${i}.ts with ${i % 7} additions and ${i % 3} removals`,
+      `       ${i}  - const value = compute(${i})`,
+      `       ${i}  + const value = computeCached(${i})`,
+      '',
+    )
+  }
+  lines.push(
+    '╭──────────────────────────────────────────────────────────────╮',
+    '│ Bash command                                                 │',
+    '│                                                              │',
+    '│   npm run build                                              │',
+    '│   Build the project                                          │',
+    '│                                                              │',
+    '│ Do you want to proceed?                                      │',
+    '│ ❯ 1. Yes                                                     │',
+    '│   2. No, and tell Claude what to do differently (esc)        │',
+    '╰──────────────────────────────────────────────────────────────╯',
+  )
+  return lines
+}
+
+function createMatcher(): PatternMatcher {
+  const matcher = new PatternMatcher()
+  patterns.forEach(pattern => matcher.addPattern(pattern))
+  return matcher
+}
+
+const ROWS = 50
+const sessionLines = createSessionBuffer(5000)
+const fullBuffer = sessionLines.join('\n')
+const viewport: TerminalViewport = {
+  lines: sessionLines.slice(-ROWS),
+  startRow: sessionLines.length - ROWS,
+  cursorRow: sessionLines.length - 1,
+  cursorCol: 0,
+}
+
+describe('pattern matching over a 5000 line session', () => {
+  const fullBufferMatcher = createMatcher()
+  bench('full buffer', () => {
+    fullBufferMatcher.processData(fullBuffer)
+  })
+
+  const viewportMatcher = createMatcher()
+  bench('viewport', () => {
+    viewportMatcher.processViewport({ ...viewport, dirtyRegion: undefined })
+  })
+
+  // Rows keep their cached line results, only the changed row is matched
+  const incrementalMatcher = createMatcher()
+  incrementalMatcher.processViewport(viewport)
+  let tick = 0
+  bench('viewport with one changed row', () => {
+    const lines = [...viewport.lines]
+    lines[0] = `output ${tick++}`
+    incrementalMatcher.processViewport({
+      ...viewport,
+      lines,
+      dirtyRegion: { startRow: viewport.startRow, endRow: viewport.startRow },
+    })
+  })
+
+  const unchangedMatcher = createMatcher()
+  unchangedMatcher.processViewport(viewport)
+  bench('unchanged viewport', () => {
+    unchangedMatcher.processViewport({ ...viewport, dirtyRegion: null })
+  })
+})
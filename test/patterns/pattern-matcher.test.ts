@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { PatternMatcher, type PatternConfig } from '../../src/patterns/matcher'
 import { readFileSync, unlinkSync, existsSync } from 'fs'
+import { confirmationPatterns } from '../../src/patterns/registry'
 
 describe('PatternMatcher', () => {
   let matcher: PatternMatcher
@@ -944,4 +945,264 @@ describe('PatternMatcher', () => {
       })
     })
   })
+
+  describe('Typed Placeholders', () => {
+    it('should only match integers and coerce them', () => {
+      matcher.addPattern({
+        id: 'int-placeholder',
+        title: 'Int Placeholder Test',
+        pattern: ['Found {{ count | int }} issues'],
+        response: 'ok',
+      })
+
+      expect(matcher.processData('Found many issues')).toHaveLength(0)
+
+      const matches = matcher.processData('Found 007 issues')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toEqual({ count: '7' })
+    })
+
+    it('should capture paths without surrounding text', () => {
+      matcher.addPattern({
+        id: 'path-placeholder',
+        title: 'Path Placeholder Test',
+        pattern: ['Do you want to create {{ fileName | path }}?'],
+        response: '1',
+      })
+
+      const matches = matcher.processData('Do you want to create "src/app.ts"?')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toEqual({ fileName: 'src/app.ts' })
+      expect(
+        matcher.processData('Do you want to create a new branch?'),
+      ).toHaveLength(0)
+    })
+
+    it('should only match lines containing a URL', () => {
+      matcher.addPattern({
+        id: 'url-placeholder',
+        title: 'URL Placeholder Test',
+        pattern: ['Fetch', '{{ url | url }}'],
+        response: '1',
+      })
+
+      expect(matcher.processData('Fetch\nnothing to see here')).toHaveLength(0)
+
+      const matches = matcher.processData(
+        'Fetch\n│   https://docs.python.org/3/library/  │',
+      )
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toEqual({
+        url: 'https://docs.python.org/3/library/',
+      })
+    })
+
+    it('should match regex placeholders including alternation', () => {
+      matcher.addPattern({
+        id: 'regex-placeholder',
+        title: 'Regex Placeholder Test',
+        pattern: ['Mode: {{ mode | regex:^(plan|act)$ }}'],
+        response: 'ok',
+      })
+
+      expect(matcher.processData('Mode: auto')).toHaveLength(0)
+
+      const matches = matcher.processData('Mode: plan')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toEqual({ mode: 'plan' })
+    })
+
+    it('should keep group numbering with regex placeholders before others', () => {
+      matcher.addPattern({
+        id: 'regex-groups',
+        title: 'Regex Groups Test',
+        pattern: ['{{ verb | regex:(get|set)(ter)? }} {{ count | int }}'],
+        response: 'ok',
+      })
+
+      const matches = matcher.processData('setter 42')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toEqual({ verb: 'setter', count: '42' })
+    })
+
+    it('should leave out optional placeholders that are missing', () => {
+      matcher.addPattern({
+        id: 'optional-placeholder',
+        title: 'Optional Placeholder Test',
+        pattern: ['Retry{{ attempt | int | optional }}!'],
+        response: 'ok',
+      })
+
+      let matches = matcher.processData('Retry!')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toBeUndefined()
+
+      matches = matcher.processData('Retry3!')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toEqual({ attempt: '3' })
+    })
+
+    it('should reject unknown filters and invalid regexes', () => {
+      expect(() =>
+        matcher.addPattern({
+          id: 'unknown-filter',
+          title: 'Unknown Filter Test',
+          pattern: ['Value: {{ value | float }}'],
+          response: 'ok',
+        }),
+      ).toThrow('Unknown placeholder filter "float"')
+
+      expect(() =>
+        matcher.addPattern({
+          id: 'invalid-regex',
+          title: 'Invalid Regex Test',
+          pattern: ['Value: {{ value | regex:[a- }}'],
+          response: 'ok',
+        }),
+      ).toThrow()
+    })
+
+    it('should not match the fetch prompt against unrelated output', () => {
+      matcher.addPattern(
+        confirmationPatterns.find(
+          pattern => pattern.id === 'fetch-content-prompt',
+        )!,
+      )
+
+      expect(
+        matcher.processData(
+          'Fetching dependencies\n\nDone in 2s\n' +
+            'Claude wants to fetch content from the cache, please wait\n' +
+            'No, and tell Claude what to do differently',
+        ),
+      ).toHaveLength(0)
+
+      const matches = matcher.processData(
+        'Fetch\n\n  https://docs.python.org/3/\n' +
+          '  Claude wants to fetch content from docs.python.org\n' +
+          '  3. No, and tell Claude what to do differently',
+      )
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toMatchObject({
+        url: 'https://docs.python.org/3/',
+        domain: 'docs.python.org',
+      })
+    })
+  })
+
+  describe('Sequence Modifiers', () => {
+    it('should reject matches with a negative line in between', () => {
+      matcher.addPattern({
+        id: 'negative-line',
+        title: 'Negative Line Test',
+        pattern: ['Start', '[not] Error', 'End'],
+        response: 'ok',
+      })
+
+      expect(matcher.processData('Start\nError: boom\nEnd')).toHaveLength(0)
+      expect(matcher.processData('Start\nall good\nEnd')).toHaveLength(1)
+    })
+
+    it('should reject matches with a negative line after the last line', () => {
+      matcher.addPattern({
+        id: 'negative-tail',
+        title: 'Negative Tail Test',
+        pattern: ['Prompt', '[not] Answered'],
+        response: 'ok',
+      })
+
+      expect(matcher.processData('Prompt\nAnswered')).toHaveLength(0)
+      expect(matcher.processData('Prompt\nwaiting')).toHaveLength(1)
+    })
+
+    it('should require next lines to be adjacent', () => {
+      matcher.addPattern({
+        id: 'next-line',
+        title: 'Next Line Test',
+        pattern: ['1. Yes', '[next] 2. No'],
+        response: '1',
+      })
+
+      expect(matcher.processData('1. Yes\nsomething\n2. No')).toHaveLength(0)
+
+      const matches = matcher.processData('1. Yes\n2. No')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].lastLineNumber).toBe(1)
+    })
+
+    it('should require lines to be within N lines of the previous line', () => {
+      matcher.addPattern({
+        id: 'within-lines',
+        title: 'Within Lines Test',
+        pattern: ['Header', '[within 2] Footer'],
+        response: 'ok',
+      })
+
+      expect(matcher.processData('Header\na\nb\nFooter')).toHaveLength(0)
+      expect(matcher.processData('Header\na\nFooter')).toHaveLength(1)
+    })
+
+    it('should prefer the lowest match over stale prompts in scrollback', () => {
+      matcher.addPattern({
+        id: 'stale-prompt',
+        title: 'Stale Prompt Test',
+        pattern: [
+          'Edit file',
+          'Do you want to make this edit to {{ fileName }}?',
+        ],
+        response: '1',
+      })
+
+      const matches = matcher.processData(
+        'Edit file\nDo you want to make this edit to old.ts?\n' +
+          'more output\n' +
+          'Edit file\nDo you want to make this edit to new.ts?',
+      )
+      expect(matches).toHaveLength(1)
+      expect(matches[0].firstLineNumber).toBe(3)
+      expect(matches[0].extractedData).toEqual({ fileName: 'new.ts' })
+    })
+
+    it('should try later starting lines when constraints fail', () => {
+      matcher.addPattern({
+        id: 'retry-start',
+        title: 'Retry Start Test',
+        pattern: ['Header', '[next] Body'],
+        response: 'ok',
+      })
+
+      const matches = matcher.processData('Header\nBody\nHeader\nother')
+      expect(matches).toHaveLength(1)
+      expect(matches[0].firstLineNumber).toBe(0)
+    })
+
+    it('should tell the two bash command prompt formats apart', () => {
+      const format1 = confirmationPatterns.find(
+        pattern => pattern.id === 'bash-command-prompt-format-1',
+      )!
+      const format2 = confirmationPatterns.find(
+        pattern => pattern.id === 'bash-command-prompt-format-2',
+      )!
+      matcher.addPattern(format1)
+      matcher.addPattern(format2)
+
+      let matches = matcher.processData(
+        'Bash command\n  npm test\n  Run tests\nDo you want to proceed?\n' +
+          '❯ 1. Yes\n' +
+          "  2. Yes, and don't ask again for npm test commands in /repo\n" +
+          '  3. No, and tell Claude what to do differently (esc)',
+      )
+      expect(matches).toHaveLength(1)
+      expect(matches[0].patternId).toBe('bash-command-prompt-format-1')
+
+      matches = matcher.processData(
+        'Bash command\n  rm -rf dist\n  Clean build\nDo you want to proceed?\n' +
+          '❯ 1. Yes\n' +
+          '  2. No, and tell Claude what to do differently (esc)',
+      )
+      expect(matches).toHaveLength(1)
+      expect(matches[0].patternId).toBe('bash-command-prompt-format-2')
+      expect(matches[0].extractedData?.command).toBe('rm -rf dist')
+    })
+  })
 })
@@ -60,6 +60,46 @@ describe('PatternConfig validation', () => {
       }
     })
 
+    it('should validate a pattern with response steps', () => {
+      const pattern: PatternConfig = {
+        id: 'test-steps',
+        title: 'Test Steps',
+        pattern: ['test'],
+        response: [
+          { key: 'shift+tab' },
+          { wait: 400 },
+          { text: 'hello' },
+          { key: 'Enter' },
+          { waitFor: '? for shortcuts' },
+          { waitFor: '/plan mode on/', timeout: 3000 },
+          { waitForGone: 'Thinking' },
+        ],
+      }
+
+      const result = validatePatternConfig(pattern)
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject response steps with unknown keys or fields', () => {
+      const invalidResponses = [
+        [{ key: 'hyper+q' }],
+        [{ wait: -1 }],
+        [{ text: 'a', key: 'enter' }],
+        [{ press: 'enter' }],
+        [{ waitFor: '/[unclosed/' }],
+        [{ waitForGone: 'Thinking', timeout: 0 }],
+      ]
+
+      for (const response of invalidResponses) {
+        const result = validatePatternConfig({
+          id: 'test-steps',
+          title: 'Test Steps',
+          response,
+        })
+        expect(result.success).toBe(false)
+      }
+    })
+
     it('should reject pattern with empty id', () => {
       const pattern = {
         id: '',
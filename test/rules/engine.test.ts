@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest'
+import type { AcceptanceRule, AppConfig } from '../../src/config/schemas'
+import { validateAppConfig } from '../../src/config/schemas'
+import { evaluateRules, matchesCondition } from '../../src/rules/engine'
+import { getPromptAction } from '../../src/utils/prompt-acceptance'
+import { createMatch } from '../utils/test-matches'
+
+describe('Acceptance rules engine', () => {
+  describe('matchesCondition', () => {
+    it('should treat string conditions as exact matches', () => {
+      expect(matchesCondition('npm test', 'npm test')).toBe(true)
+      expect(matchesCondition('npm test --watch', 'npm test')).toBe(false)
+    })
+
+    it('should combine operators with AND semantics', () => {
+      const condition = { starts_with: 'src/', ends_with: '.ts' }
+
+      expect(matchesCondition('src/index.ts', condition)).toBe(true)
+      expect(matchesCondition('src/index.js', condition)).toBe(false)
+      expect(matchesCondition('lib/index.ts', condition)).toBe(false)
+    })
+
+    it('should support contains and regex conditions', () => {
+      expect(matchesCondition('git status', { contains: 'status' })).toBe(true)
+      expect(
+        matchesCondition('git push', { matches: '^git (status|diff)' }),
+      ).toBe(false)
+      expect(
+        matchesCondition('git diff', { matches: '^git (status|diff)' }),
+      ).toBe(true)
+    })
+
+    it('should not match missing fields', () => {
+      expect(matchesCondition(undefined, { contains: '' })).toBe(false)
+    })
+  })
+
+  describe('evaluateRules', () => {
+    const rules: AcceptanceRule[] = [
+      {
+        pattern: 'bash-command-prompt-format-1',
+        action: 'reject',
+        when: { command: { starts_with: 'rm ' } },
+      },
+      {
+        pattern: [
+          'bash-command-prompt-format-1',
+          'bash-command-prompt-format-2',
+        ],
+        action: 'accept',
+        when: { command: { starts_with: 'npm ' } },
+      },
+      {
+        pattern: 'edit-file-prompt',
+        action: 'accept',
+      },
+    ]
+
+    it('should return undefined when there are no rules', () => {
+      expect(evaluateRules(createMatch('edit-file-prompt'), undefined)).toBe(
+        undefined,
+      )
+      expect(evaluateRules(createMatch('edit-file-prompt'), [])).toBe(undefined)
+    })
+
+    it('should apply the first matching rule', () => {
+      const match = createMatch('bash-command-prompt-format-1', {
+        command: 'rm -rf node_modules',
+      })
+      expect(evaluateRules(match, rules)).toBe('reject')
+    })
+
+    it('should match rules listing several pattern ids', () => {
+      const match = createMatch('bash-command-prompt-format-2', {
+        command: 'npm test',
+      })
+      expect(evaluateRules(match, rules)).toBe('accept')
+    })
+
+    it('should match rules without conditions on pattern id alone', () => {
+      const match = createMatch('edit-file-prompt', { fileName: 'README.md' })
+      expect(evaluateRules(match, rules)).toBe('accept')
+    })
+
+    it('should return undefined when no rule matches', () => {
+      const match = createMatch('bash-command-prompt-format-2', {
+        command: 'curl example.com',
+      })
+      expect(evaluateRules(match, rules)).toBe(undefined)
+    })
+
+    it('should match any pattern with a wildcard id', () => {
+      const match = createMatch('fetch-content-prompt', {
+        domain: 'example.com',
+      })
+      expect(
+        evaluateRules(match, [
+          { pattern: '*', action: 'prompt', when: { domain: 'example.com' } },
+        ]),
+      ).toBe('prompt')
+    })
+  })
+
+  describe('getPromptAction', () => {
+    it('should fall back to prompting without rules or yolo', () => {
+      expect(getPromptAction(createMatch('edit-file-prompt'), {}, false)).toBe(
+        'prompt',
+      )
+    })
+
+    it('should accept everything in yolo mode without rules', () => {
+      expect(getPromptAction(createMatch('edit-file-prompt'), {}, true)).toBe(
+        'accept',
+      )
+    })
+
+    it('should let rules override yolo mode', () => {
+      const appConfig: AppConfig = {
+        rules: [
+          {
+            pattern: 'bash-command-prompt-format-2',
+            action: 'prompt',
+            when: { command: { contains: 'push' } },
+          },
+        ],
+      }
+      const match = createMatch('bash-command-prompt-format-2', {
+        command: 'git push',
+      })
+
+      expect(getPromptAction(match, appConfig, true)).toBe('prompt')
+    })
+
+    it('should not let accept rules override the deny lists', () => {
+      const appConfig: AppConfig = {
+        rules: [{ pattern: '*', action: 'accept' }],
+        denied_file_paths: ['.env*'],
+        denied_domains: ['evil.com'],
+        denied_commands: ['rm -rf *'],
+      }
+
+      expect(
+        getPromptAction(
+          createMatch('edit-file-prompt', { fileName: '.env' }),
+          appConfig,
+          false,
+        ),
+      ).toBe('prompt')
+      expect(
+        getPromptAction(
+          createMatch('fetch-content-prompt', { domain: 'evil.com' }),
+          appConfig,
+          false,
+        ),
+      ).toBe('prompt')
+      expect(
+        getPromptAction(
+          createMatch('bash-command-prompt-format-2', { command: 'rm -rf /' }),
+          appConfig,
+          false,
+        ),
+      ).toBe('prompt')
+      expect(
+        getPromptAction(
+          createMatch('edit-file-prompt', { fileName: 'src/index.ts' }),
+          appConfig,
+          false,
+        ),
+      ).toBe('accept')
+    })
+
+    it('should still apply reject rules to denied entries', () => {
+      const appConfig: AppConfig = {
+        rules: [{ pattern: 'edit-file-prompt', action: 'reject' }],
+        denied_file_paths: ['.env*'],
+      }
+
+      expect(
+        getPromptAction(
+          createMatch('edit-file-prompt', { fileName: '.env' }),
+          appConfig,
+          false,
+        ),
+      ).toBe('reject')
+    })
+  })
+
+  describe('config validation', () => {
+    it('should accept a rules section', () => {
+      const result = validateAppConfig({
+        rules: [
+          {
+            pattern: 'edit-file-prompt',
+            action: 'accept',
+            when: { fileName: { starts_with: 'src/' } },
+          },
+        ],
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject unknown actions and invalid regular expressions', () => {
+      expect(
+        validateAppConfig({
+          rules: [{ pattern: 'edit-file-prompt', action: 'maybe' }],
+        }).success,
+      ).toBe(false)
+      expect(
+        validateAppConfig({
+          rules: [
+            {
+              pattern: 'edit-file-prompt',
+              action: 'accept',
+              when: { fileName: { matches: '(' } },
+            },
+          ],
+        }).success,
+      ).toBe(false)
+    })
+  })
+})
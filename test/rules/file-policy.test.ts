@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import * as path from 'path'
+import type { MatchResult } from '../../src/patterns/matcher'
+import type { AppConfig } from '../../src/config/schemas'
+import {
+  evaluateFilePolicy,
+  matchesFileGlobs,
+  toProjectRelativePath,
+} from '../../src/rules/file-policy'
+import { getPromptAction } from '../../src/utils/prompt-acceptance'
+import { createMatch } from '../utils/test-matches'
+
+function createFileMatch(patternId: string, fileName: string): MatchResult {
+  return createMatch(patternId, { fileName }, { patternTitle: 'File prompt' })
+}
+
+describe('File path policy', () => {
+  const appConfig: AppConfig = {
+    allowed_file_paths: ['src/**/*.ts', 'docs/**'],
+    denied_file_paths: ['.env*', '**/migrations/**'],
+  }
+
+  describe('toProjectRelativePath', () => {
+    it('should convert absolute project paths to relative paths', () => {
+      expect(
+        toProjectRelativePath(path.join(process.cwd(), 'src', 'index.ts')),
+      ).toBe('src/index.ts')
+    })
+
+    it('should normalize relative paths', () => {
+      expect(toProjectRelativePath('./src/../src/index.ts')).toBe(
+        'src/index.ts',
+      )
+    })
+  })
+
+  describe('matchesFileGlobs', () => {
+    it('should match slash-less globs against basenames', () => {
+      expect(matchesFileGlobs('.env', ['.env*'])).toBe(true)
+      expect(matchesFileGlobs('config/.env.local', ['.env*'])).toBe(true)
+      expect(matchesFileGlobs('src/env.ts', ['.env*'])).toBe(false)
+    })
+
+    it('should match globs with slashes against the full path', () => {
+      expect(matchesFileGlobs('src/utils/a.ts', ['src/**/*.ts'])).toBe(true)
+      expect(matchesFileGlobs('lib/src/a.ts', ['src/**/*.ts'])).toBe(false)
+    })
+
+    it('should not match without globs', () => {
+      expect(matchesFileGlobs('src/index.ts', undefined)).toBe(false)
+      expect(matchesFileGlobs('src/index.ts', [])).toBe(false)
+    })
+  })
+
+  describe('evaluateFilePolicy', () => {
+    it('should accept allowed files for edit and create prompts', () => {
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('edit-file-prompt', 'src/index.ts'),
+          appConfig,
+        ),
+      ).toBe('accept')
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('create-file-prompt', 'docs/guide.md'),
+          appConfig,
+        ),
+      ).toBe('accept')
+    })
+
+    it('should prompt for denied files even when allowed', () => {
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('edit-file-prompt', 'src/db/migrations/001.ts'),
+          appConfig,
+        ),
+      ).toBe('prompt')
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('create-file-prompt', '.env.production'),
+          appConfig,
+        ),
+      ).toBe('prompt')
+    })
+
+    it('should not auto-accept files outside the project', () => {
+      const config: AppConfig = { allowed_file_paths: ['**'] }
+
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('edit-file-prompt', '/etc/hosts'),
+          config,
+        ),
+      ).toBe(undefined)
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('edit-file-prompt', '../other/file.ts'),
+          config,
+        ),
+      ).toBe(undefined)
+    })
+
+    it('should leave unlisted files undecided', () => {
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('edit-file-prompt', 'package.json'),
+          appConfig,
+        ),
+      ).toBe(undefined)
+    })
+
+    it('should ignore other patterns', () => {
+      expect(
+        evaluateFilePolicy(
+          createFileMatch('read-files-prompt', 'src/index.ts'),
+          appConfig,
+        ),
+      ).toBe(undefined)
+    })
+  })
+
+  describe('getPromptAction integration', () => {
+    it('should prompt for denied files in yolo mode', () => {
+      const match = createFileMatch('edit-file-prompt', '.env')
+      expect(getPromptAction(match, appConfig, true)).toBe('prompt')
+    })
+
+    it('should accept allowed files without yolo mode', () => {
+      const match = createFileMatch('edit-file-prompt', 'src/cli.ts')
+      expect(getPromptAction(match, appConfig, false)).toBe('accept')
+    })
+  })
+})
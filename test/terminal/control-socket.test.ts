@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  ControlServer,
+  findRunningSessions,
+  getSessionSocketPath,
+  sendControlRequest,
+  type ControlRequest,
+  type ControlResponse,
+} from '../../src/terminal/control-socket'
+import { formatPendingPrompt } from '../../src/cli/cc-approve'
+
+const session = { pid: 4242, cwd: '/work/project' }
+const prompt = {
+  id: '1',
+  patternId: 'bash-command-prompt-format-1',
+  patternTitle: 'Bash command',
+  extractedData: { command: 'npm test' },
+  promptedAt: '2025-01-01T00:00:00.000Z',
+}
+
+describe.skipIf(process.platform === 'win32')('Control socket', () => {
+  const originalConfigDir = process.env.CLAUDE_COMPOSER_CONFIG_DIR
+  let configDir: string
+  let server: ControlServer
+  let handler: ReturnType<typeof vi.fn>
+
+  beforeEach(async () => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cc-socket-'))
+    process.env.CLAUDE_COMPOSER_CONFIG_DIR = configDir
+    handler = vi.fn(
+      (request: ControlRequest): ControlResponse =>
+        request.command === 'list'
+          ? { ok: true, session, prompts: [prompt] }
+          : { ok: true, session, prompt },
+    )
+    server = new ControlServer(getSessionSocketPath(session.pid), handler)
+    await server.start()
+  })
+
+  afterEach(() => {
+    server.close()
+    if (originalConfigDir === undefined) {
+      delete process.env.CLAUDE_COMPOSER_CONFIG_DIR
+    } else {
+      process.env.CLAUDE_COMPOSER_CONFIG_DIR = originalConfigDir
+    }
+    fs.rmSync(configDir, { recursive: true, force: true })
+  })
+
+  it('should create a socket only the user can connect to', () => {
+    const socketPath = path.join(configDir, 'sessions', '4242.sock')
+
+    expect(fs.statSync(socketPath).mode & 0o777).toBe(0o600)
+    expect(fs.statSync(path.dirname(socketPath)).mode & 0o777).toBe(0o700)
+  })
+
+  it('should answer list, approve and deny requests', async () => {
+    const socketPath = getSessionSocketPath(session.pid)
+
+    await expect(
+      sendControlRequest(socketPath, { command: 'list' }),
+    ).resolves.toEqual({ ok: true, session, prompts: [prompt] })
+    await expect(
+      sendControlRequest(socketPath, { command: 'deny', id: '1' }),
+    ).resolves.toEqual({ ok: true, session, prompt })
+    expect(handler).toHaveBeenLastCalledWith({ command: 'deny', id: '1' })
+  })
+
+  it('should answer several requests on one connection', async () => {
+    const socket = net.createConnection(getSessionSocketPath(session.pid))
+    const lines: string[] = []
+    await new Promise<void>(resolve => {
+      let buffered = ''
+      socket.on('data', chunk => {
+        buffered += chunk
+        if (buffered.split('\n').length > 2) {
+          lines.push(...buffered.trim().split('\n'))
+          resolve()
+        }
+      })
+      socket.write('{"command":"list"}\n{"command":"approve"}\n')
+    })
+    socket.destroy()
+
+    expect(lines.map(line => JSON.parse(line).ok)).toEqual([true, true])
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reject malformed requests', async () => {
+    const socketPath = getSessionSocketPath(session.pid)
+
+    await expect(
+      sendControlRequest(socketPath, { command: 'delete' } as any),
+    ).resolves.toEqual({
+      ok: false,
+      error: 'Unknown command, expected one of: list, approve, deny',
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('should report handler errors', async () => {
+    handler.mockImplementation(() => {
+      throw new Error('Terminal is gone')
+    })
+
+    await expect(
+      sendControlRequest(getSessionSocketPath(session.pid), {
+        command: 'list',
+      }),
+    ).resolves.toEqual({ ok: false, error: 'Terminal is gone' })
+  })
+
+  it('should find running sessions and remove stale sockets', async () => {
+    // A socket file nobody listens on any more
+    const staleServer = new ControlServer(getSessionSocketPath(1), handler)
+    await staleServer.start()
+    const stalePath = getSessionSocketPath(1)
+    const staleCopy = stalePath + '.keep'
+    fs.renameSync(stalePath, staleCopy)
+    staleServer.close()
+    fs.renameSync(staleCopy, stalePath)
+
+    const sessions = await findRunningSessions()
+
+    expect(sessions).toEqual([
+      { socketPath: getSessionSocketPath(session.pid), ...session },
+    ])
+    expect(fs.existsSync(stalePath)).toBe(false)
+  })
+
+  it('should remove the socket on close', () => {
+    server.close()
+
+    expect(fs.existsSync(getSessionSocketPath(session.pid))).toBe(false)
+  })
+})
+
+describe('formatPendingPrompt', () => {
+  it('should show the id, title, age and extracted data', () => {
+    expect(
+      formatPendingPrompt(prompt, Date.parse('2025-01-01T00:00:12.000Z')),
+    ).toBe(
+      '[1] Bash command (bash-command-prompt-format-1, 12s ago)\n    command: npm test',
+    )
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import xterm from '@xterm/xterm'
+import { DirtyRowTracker } from '../../src/terminal/dirty-rows'
+import { readViewport } from '../../src/terminal/viewport'
+import type { TerminalViewport } from '../../src/terminal/types'
+
+const { Terminal } = xterm
+type Terminal = InstanceType<typeof Terminal>
+
+// onWriteParsed fires after the write callback, so wait for it as well
+function writeToTerminal(terminal: Terminal, data: string): Promise<void> {
+  return new Promise(resolve =>
+    terminal.write(data, () => setTimeout(resolve, 0)),
+  )
+}
+
+describe('DirtyRowTracker', () => {
+  let terminal: Terminal
+  let tracker: DirtyRowTracker
+
+  const setup = (rows: number) => {
+    terminal = new Terminal({
+      cols: 40,
+      rows,
+      scrollback: 100,
+      allowProposedApi: true,
+    })
+    tracker = new DirtyRowTracker(terminal)
+  }
+
+  afterEach(() => {
+    tracker.dispose()
+    terminal.dispose()
+  })
+
+  it('should start with the whole screen dirty', () => {
+    setup(5)
+    expect(tracker.takeDirtyRegion()).toEqual({ startRow: 0, endRow: 4 })
+    expect(tracker.takeDirtyRegion()).toBeNull()
+  })
+
+  it('should mark rows written since the last check', async () => {
+    setup(10)
+    await writeToTerminal(terminal, 'one\r\ntwo\r\n')
+    tracker.takeDirtyRegion()
+
+    await writeToTerminal(terminal, 'three\r\nfour')
+    expect(tracker.takeDirtyRegion()).toEqual({ startRow: 2, endRow: 3 })
+  })
+
+  it('should mark rows redrawn after moving the cursor up', async () => {
+    setup(10)
+    await writeToTerminal(terminal, 'a\r\nb\r\nc\r\nd\r\ne')
+    tracker.takeDirtyRegion()
+
+    // Move up three lines, clear the line and redraw it
+    await writeToTerminal(terminal, '\x1b[3A\r\x1b[2Kchanged')
+    expect(tracker.takeDirtyRegion()).toEqual({ startRow: 1, endRow: 4 })
+  })
+
+  it('should mark a row written after moving up and left by a line feed', async () => {
+    setup(10)
+    await writeToTerminal(terminal, 'a\r\nb\r\nc\r\nd\r\ne')
+    const previous = readViewport(terminal)
+    tracker.takeDirtyRegion()
+
+    await writeToTerminal(terminal, '\x1b[3A\rXX\r\n\x1b[1B')
+    const dirtyRegion = tracker.takeDirtyRegion()
+    expect(dirtyRegion).toEqual({ startRow: 1, endRow: 4 })
+    expect(readViewport(terminal, previous, dirtyRegion).lines[1]).toBe('XX')
+  })
+
+  it('should mark the row an absolute cursor position goes to', async () => {
+    setup(10)
+    await writeToTerminal(terminal, 'a\r\nb\r\nc\r\nd\r\ne')
+    tracker.takeDirtyRegion()
+
+    await writeToTerminal(terminal, '\x1b[2;1HYY\x1b[5;1H')
+    expect(tracker.takeDirtyRegion()).toEqual({ startRow: 1, endRow: 4 })
+  })
+
+  it('should mark everything below the cursor when erasing the display', async () => {
+    setup(6)
+    await writeToTerminal(terminal, 'a\r\nb\r\nc')
+    tracker.takeDirtyRegion()
+
+    await writeToTerminal(terminal, '\x1b[2;1H\x1b[J')
+    expect(tracker.takeDirtyRegion()).toEqual({ startRow: 1, endRow: 5 })
+  })
+
+  // Each case moves the cursor, is checked, and then scrolls rows it didn't mark
+  it.each([
+    ['scrolling up', '\x1b[5;1H', '\x1b[2S', ['c', 'd', 'e', '', '']],
+    ['scrolling down', '\x1b[5;1H', '\x1b[T', ['', 'a', 'b', 'c', 'd']],
+    [
+      'a reverse index on the top row',
+      '\x1b[H',
+      '\x1bM',
+      ['', 'a', 'b', 'c', 'd'],
+    ],
+    [
+      'a line feed at the bottom of a scroll region',
+      '\x1b[2;3r\x1b[3;1H',
+      '\n',
+      ['a', 'c', '', 'd', 'e'],
+    ],
+  ])(
+    'should mark the whole screen after %s',
+    async (_, position, data, expected) => {
+      setup(5)
+      await writeToTerminal(terminal, `a\r\nb\r\nc\r\nd\r\ne${position}`)
+      const previous = readViewport(
+        terminal,
+        undefined,
+        tracker.takeDirtyRegion(),
+      )
+
+      await writeToTerminal(terminal, data)
+      const viewport = readViewport(
+        terminal,
+        previous,
+        tracker.takeDirtyRegion(),
+      )
+      expect(viewport.lines).toEqual(expected)
+      expect(viewport.lines).toEqual(readViewport(terminal).lines)
+    },
+  )
+
+  it('should keep incremental viewports identical to full reads', async () => {
+    setup(8)
+    let viewport: TerminalViewport | undefined
+
+    const writes = [
+      Array.from({ length: 20 }, (_, i) => `output ${i}`).join('\r\n'),
+      '\r\n╭────────╮\r\n│ >      │\r\n╰────────╯',
+      '\x1b[2A\r\x1b[2K│ > hi   │\x1b[2B',
+      '\r\n' + 'x'.repeat(100),
+      '\x1b[4A\r\x1b[J\r\nEdit file\r\nDo you want to make this edit?',
+      '\x1b[H\x1b[2Jcleared',
+    ]
+
+    for (const data of writes) {
+      await writeToTerminal(terminal, data)
+      viewport = readViewport(terminal, viewport, tracker.takeDirtyRegion())
+      expect(viewport.lines).toEqual(readViewport(terminal).lines)
+    }
+  })
+
+  it('should report unchanged viewports', async () => {
+    setup(5)
+    await writeToTerminal(terminal, 'hello')
+    const first = readViewport(terminal, undefined, tracker.takeDirtyRegion())
+    expect(first.dirtyRegion).toBeUndefined()
+
+    const second = readViewport(terminal, first, tracker.takeDirtyRegion())
+    expect(second.dirtyRegion).toBeNull()
+    expect(second.lines).toEqual(first.lines)
+  })
+})
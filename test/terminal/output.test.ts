@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { TerminalOutput } from '../../src/terminal/output'
+
+describe('TerminalOutput', () => {
+  let written: string[]
+  let output: TerminalOutput
+
+  beforeEach(() => {
+    written = []
+    output = new TerminalOutput({ write: data => written.push(data) })
+  })
+
+  it('should write straight away between escape sequences', () => {
+    output.mirror('hello \x1b[1mworld\x1b[0m')
+    output.write('\x07')
+
+    expect(written).toEqual(['hello \x1b[1mworld\x1b[0m', '\x07'])
+  })
+
+  it('should hold writes back while a CSI sequence is split across chunks', () => {
+    output.mirror('hello \x1b[3')
+    output.write('\x07')
+    expect(written).toEqual(['hello \x1b[3'])
+
+    output.mirror('8;5;1')
+    expect(written).toEqual(['hello \x1b[3', '8;5;1'])
+
+    output.mirror('mred')
+    expect(written).toEqual(['hello \x1b[3', '8;5;1', 'mred', '\x07'])
+  })
+
+  it('should hold writes back until an OSC sequence is terminated', () => {
+    output.mirror('\x1b]0;title')
+    output.write('\x1b]9;note\x07')
+    output.mirror(' more\x1b')
+    expect(written).toEqual(['\x1b]0;title', ' more\x1b'])
+
+    output.mirror('\\done')
+    expect(written.join('')).toBe('\x1b]0;title more\x1b\\done\x1b]9;note\x07')
+
+    output.mirror('\x1b]0;other\x07')
+    output.write('\x07')
+    expect(written.at(-1)).toBe('\x07')
+  })
+
+  it('should hold writes back after a lone escape', () => {
+    output.mirror('\x1b')
+    output.write('\x07')
+    output.mirror('(')
+    expect(written).toEqual(['\x1b', '('])
+
+    output.mirror('B')
+    expect(written).toEqual(['\x1b', '(', 'B', '\x07'])
+  })
+})
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  SessionRecorder,
+  getDefaultRecordingPath,
+  parseRecording,
+} from '../../src/terminal/recorder'
+
+describe('SessionRecorder', () => {
+  let testDir: string
+  let filePath: string
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'))
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-test-'))
+    filePath = path.join(testDir, 'logs', 'session.cast')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  function readLines(): any[] {
+    return fs
+      .readFileSync(filePath, 'utf8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line))
+  }
+
+  it('should write an asciicast v2 header', () => {
+    const recorder = new SessionRecorder(filePath)
+    recorder.start(120, 40, 'Claude Composer: my-project')
+    recorder.close()
+
+    expect(readLines()[0]).toMatchObject({
+      version: 2,
+      width: 120,
+      height: 40,
+      timestamp: 1735689600,
+      title: 'Claude Composer: my-project',
+    })
+  })
+
+  it('should write timed output, input, resize and marker events', () => {
+    const recorder = new SessionRecorder(filePath)
+    recorder.start(80, 24)
+
+    recorder.output('\x1b[1mWelcome\x1b[0m\r\n')
+    vi.advanceTimersByTime(1500)
+    recorder.input('y')
+    recorder.marker('Accepted Edit file (edit-file-prompt)')
+    vi.advanceTimersByTime(250)
+    recorder.resize(100, 30)
+    recorder.close()
+
+    expect(readLines().slice(1)).toEqual([
+      [0, 'o', '\x1b[1mWelcome\x1b[0m\r\n'],
+      [1.5, 'i', 'y'],
+      [1.5, 'm', 'Accepted Edit file (edit-file-prompt)'],
+      [1.75, 'r', '100x30'],
+    ])
+  })
+
+  it('should ignore events before start and after close', () => {
+    const recorder = new SessionRecorder(filePath)
+    recorder.output('before')
+    recorder.start(80, 24)
+    recorder.close()
+    recorder.output('after')
+
+    expect(readLines()).toHaveLength(1)
+  })
+
+  it('should keep recordings private to the user', () => {
+    const recorder = new SessionRecorder(filePath)
+    recorder.start(80, 24)
+    recorder.close()
+
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600)
+  })
+
+  it('should default to a timestamped file in the logs directory', () => {
+    const originalConfigDir = process.env.CLAUDE_COMPOSER_CONFIG_DIR
+    process.env.CLAUDE_COMPOSER_CONFIG_DIR = testDir
+    try {
+      expect(getDefaultRecordingPath()).toBe(
+        path.join(testDir, 'logs', 'session-2025-01-01T00-00-00-000Z.cast'),
+      )
+    } finally {
+      if (originalConfigDir === undefined) {
+        delete process.env.CLAUDE_COMPOSER_CONFIG_DIR
+      } else {
+        process.env.CLAUDE_COMPOSER_CONFIG_DIR = originalConfigDir
+      }
+    }
+  })
+})
+
+describe('parseRecording', () => {
+  it('should read the header and events of a recording', () => {
+    const recording = parseRecording(
+      [
+        JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 0 }),
+        JSON.stringify([0.5, 'o', 'hello']),
+        JSON.stringify([1, 'r', '100x30']),
+        '',
+      ].join('\n'),
+    )
+
+    expect(recording.header.width).toBe(80)
+    expect(recording.events).toEqual([
+      [0.5, 'o', 'hello'],
+      [1, 'r', '100x30'],
+    ])
+  })
+
+  it('should skip events of unknown types', () => {
+    const recording = parseRecording(
+      [
+        JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 0 }),
+        JSON.stringify([0.5, 'x', 'unknown']),
+        JSON.stringify([1, 'm', 'marker']),
+      ].join('\n'),
+    )
+
+    expect(recording.events).toEqual([[1, 'm', 'marker']])
+  })
+
+  it('should reject files that are not asciicast v2 recordings', () => {
+    expect(() => parseRecording('')).toThrow('Recording is empty')
+    expect(() => parseRecording('not json')).toThrow(
+      'Recording header is not valid JSON',
+    )
+    expect(() => parseRecording(JSON.stringify({ version: 1 }))).toThrow(
+      'Recording is not an asciicast v2 file',
+    )
+  })
+
+  it('should report the line of a broken event', () => {
+    const header = JSON.stringify({
+      version: 2,
+      width: 80,
+      height: 24,
+      timestamp: 0,
+    })
+
+    expect(() => parseRecording(`${header}\n[0.1, "o", "ok"]\n{`)).toThrow(
+      'Recording line 3 is not valid JSON',
+    )
+    expect(() => parseRecording(`${header}\n{"time": 1}`)).toThrow(
+      'Recording line 2 is not an event',
+    )
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import type { AppConfig, PatternConfig } from '../../src/config/schemas'
+import type { Recording } from '../../src/terminal/recorder'
+import { replayRecording } from '../../src/terminal/replay'
+
+const editFilePattern: PatternConfig = {
+  id: 'edit-file-prompt',
+  title: 'Edit file',
+  response: '1',
+  pattern: ['Edit file', 'Do you want to make this edit to {{ fileName }}?'],
+  triggerText: 'Edit file',
+}
+
+function editPrompt(fileName: string): string {
+  return [
+    '\x1b[2J\x1b[H╭──────────────────────────────╮',
+    '│ Edit file                    │',
+    '│ - old line                   │',
+    '│ + new line                   │',
+    `│ Do you want to make this edit to ${fileName}?`,
+    '│ ❯ 1. Yes                     │',
+    '│   2. No                      │',
+    '╰──────────────────────────────╯',
+  ].join('\r\n')
+}
+
+function createRecording(events: Recording['events']): Recording {
+  return {
+    header: { version: 2, width: 80, height: 24, timestamp: 0 },
+    events,
+  }
+}
+
+describe('replayRecording', () => {
+  it('should report matched prompts with the action the config takes', async () => {
+    const appConfig: AppConfig = {
+      rules: [
+        {
+          pattern: 'edit-file-prompt',
+          action: 'accept',
+          when: { fileName: { starts_with: 'src/' } },
+        },
+      ],
+    }
+
+    const matches = await replayRecording(
+      createRecording([
+        [0.5, 'o', 'Welcome to Claude Code\r\n'],
+        [2, 'o', editPrompt('src/index.ts')],
+        [4, 'o', '\x1b[2J\x1b[HWorking...'],
+        [6, 'o', editPrompt('README.md')],
+      ]),
+      { patterns: [editFilePattern], appConfig },
+    )
+
+    expect(
+      matches.map(({ time, match, action }) => ({
+        time,
+        patternId: match.patternId,
+        fileName: match.extractedData?.fileName,
+        action,
+      })),
+    ).toEqual([
+      {
+        time: 2,
+        patternId: 'edit-file-prompt',
+        fileName: 'src/index.ts',
+        action: 'accept',
+      },
+      {
+        time: 6,
+        patternId: 'edit-file-prompt',
+        fileName: 'README.md',
+        action: 'prompt',
+      },
+    ])
+  })
+
+  it('should wait for a prompt that renders over several writes', async () => {
+    const prompt = editPrompt('src/index.ts')
+    const middle = prompt.indexOf('│ - old')
+
+    const matches = await replayRecording(
+      createRecording([
+        [1, 'o', prompt.slice(0, middle)],
+        [1.05, 'o', prompt.slice(middle)],
+      ]),
+      { patterns: [editFilePattern], yolo: true },
+    )
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0].time).toBe(1.05)
+    expect(matches[0].action).toBe('accept')
+  })
+
+  it('should not match a prompt without its trigger in the output', async () => {
+    const matches = await replayRecording(
+      createRecording([[1, 'o', editPrompt('src/index.ts')]]),
+      { patterns: [{ ...editFilePattern, triggerText: 'Never shown' }] },
+    )
+
+    expect(matches).toEqual([])
+  })
+
+  it('should apply resizes from the recording', async () => {
+    const matches = await replayRecording(
+      createRecording([
+        [0.5, 'r', '120x40'],
+        [1, 'o', editPrompt('src/index.ts')],
+      ]),
+      { patterns: [editFilePattern] },
+    )
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0].action).toBe('prompt')
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  SettleDetector,
+  DEFAULT_SETTLE_TIMING,
+  resolveSettleTiming,
+} from '../../src/terminal/settle'
+import { PatternMatcher } from '../../src/patterns/matcher'
+import { validatePatternConfig } from '../../src/config/schemas'
+
+describe('Prompt settling', () => {
+  describe('resolveSettleTiming', () => {
+    it('should use the defaults for patterns without timings', () => {
+      expect(
+        resolveSettleTiming([{ id: 'a', title: 'A', response: '1' }]),
+      ).toEqual(DEFAULT_SETTLE_TIMING)
+      expect(resolveSettleTiming([])).toEqual(DEFAULT_SETTLE_TIMING)
+    })
+
+    it('should take the longest timings of the triggered patterns', () => {
+      expect(
+        resolveSettleTiming([
+          { id: 'a', title: 'A', response: '1', settle: { quietMs: 300 } },
+          { id: 'b', title: 'B', response: '1', settle: { maxWaitMs: 5000 } },
+        ]),
+      ).toEqual({ quietMs: 300, maxWaitMs: 5000 })
+    })
+
+    it('should validate settle timings in pattern configs', () => {
+      expect(
+        validatePatternConfig({
+          id: 'a',
+          title: 'A',
+          response: '1',
+          settle: { quietMs: 50, maxWaitMs: 2000 },
+        }).success,
+      ).toBe(true)
+      expect(
+        validatePatternConfig({
+          id: 'a',
+          title: 'A',
+          response: '1',
+          settle: { quietMs: -1 },
+        }).success,
+      ).toBe(false)
+      expect(
+        validatePatternConfig({
+          id: 'a',
+          title: 'A',
+          response: '1',
+          settle: { debounce: 100 },
+        }).success,
+      ).toBe(false)
+    })
+  })
+
+  describe('SettleDetector', () => {
+    const timing = { quietMs: 100, maxWaitMs: 1000 }
+    let rendered: boolean
+    let isRendered: ReturnType<typeof vi.fn>
+    let onSettled: ReturnType<typeof vi.fn>
+    let detector: SettleDetector
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      rendered = true
+      isRendered = vi.fn(() => rendered)
+      onSettled = vi.fn()
+      detector = new SettleDetector(isRendered, onSettled)
+    })
+
+    afterEach(() => {
+      detector.cancel()
+      vi.useRealTimers()
+    })
+
+    it('should settle after the quiet period once the prompt is rendered', () => {
+      detector.trigger(['edit-file-prompt'], timing)
+
+      vi.advanceTimersByTime(99)
+      expect(onSettled).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(1)
+      expect(isRendered).toHaveBeenCalledWith(['edit-file-prompt'])
+      expect(onSettled).toHaveBeenCalledTimes(1)
+      expect(detector.isPending()).toBe(false)
+    })
+
+    it('should restart the quiet period on output', () => {
+      detector.trigger(['edit-file-prompt'], timing)
+
+      vi.advanceTimersByTime(80)
+      detector.activity()
+      vi.advanceTimersByTime(80)
+      expect(onSettled).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(20)
+      expect(onSettled).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep waiting while the last line is not on screen', () => {
+      rendered = false
+      detector.trigger(['edit-file-prompt'], timing)
+
+      vi.advanceTimersByTime(100)
+      expect(onSettled).not.toHaveBeenCalled()
+
+      rendered = true
+      detector.activity()
+      vi.advanceTimersByTime(100)
+      expect(onSettled).toHaveBeenCalledTimes(1)
+    })
+
+    it('should settle at the maximum wait when output never stops', () => {
+      detector.trigger(['edit-file-prompt'], timing)
+
+      for (let elapsed = 0; elapsed < 950; elapsed += 50) {
+        vi.advanceTimersByTime(50)
+        detector.activity()
+      }
+      expect(onSettled).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(50)
+      expect(onSettled).toHaveBeenCalledTimes(1)
+    })
+
+    it('should settle at the maximum wait when the prompt never renders', () => {
+      rendered = false
+      detector.trigger(['edit-file-prompt'], timing)
+
+      vi.advanceTimersByTime(1000)
+      expect(onSettled).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not extend the deadline when triggered again', () => {
+      detector.trigger(['edit-file-prompt'], timing)
+      vi.advanceTimersByTime(50)
+      rendered = false
+      detector.trigger(['bash-command-prompt-format-1'], {
+        quietMs: 200,
+        maxWaitMs: 500,
+      })
+
+      vi.advanceTimersByTime(200)
+      expect(isRendered).toHaveBeenLastCalledWith([
+        'edit-file-prompt',
+        'bash-command-prompt-format-1',
+      ])
+      expect(onSettled).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(750)
+      expect(onSettled).toHaveBeenCalledTimes(1)
+    })
+
+    it('should ignore output when nothing is pending', () => {
+      detector.activity()
+      vi.advanceTimersByTime(2000)
+      expect(isRendered).not.toHaveBeenCalled()
+      expect(onSettled).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PatternMatcher.isRendered', () => {
+    it('should report whether the last pattern line is on screen', () => {
+      const matcher = new PatternMatcher()
+      matcher.addPattern({
+        id: 'edit-file-prompt',
+        title: 'Edit file',
+        pattern: [
+          'Edit file',
+          'Do you want to make this edit to {{ fileName }}?',
+        ],
+        response: '1',
+        triggerText: 'Edit file',
+      })
+      const viewport = {
+        lines: ['Edit file', ''],
+        startRow: 0,
+        cursorRow: 1,
+        cursorCol: 0,
+      }
+
+      expect(matcher.isRendered(viewport, ['edit-file-prompt'])).toBe(false)
+      viewport.lines[1] = 'Do you want to make this edit to app.ts?'
+      expect(matcher.isRendered(viewport, ['edit-file-prompt'])).toBe(true)
+      expect(matcher.isRendered(viewport, ['unknown'])).toBe(false)
+      expect(
+        matcher.getPatternsForTrigger('Edit file').map(pattern => pattern.id),
+      ).toEqual(['edit-file-prompt'])
+    })
+  })
+})
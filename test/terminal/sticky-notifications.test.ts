@@ -3,6 +3,7 @@ import {
   showNotification,
   showPatternNotification,
   showSnapshotNotification,
+  showTurnFinishedNotification,
   notifier,
 } from '../../src/utils/notifications'
 import { MatchResult } from '../../src/patterns/matcher'
@@ -129,4 +130,42 @@ describe('Sticky notifications', () => {
       sound: false,
     })
   })
+
+  it('should show turn finished notifications with the project and duration', async () => {
+    await showTurnFinishedNotification('my-project', 252_000, {
+      show_notifications: true,
+    })
+
+    expect(mockNotify).toHaveBeenCalledWith({
+      title: '✅ Claude Composer',
+      message:
+        'Claude finished after 4m12s\nProject: my-project\nWaiting for your next prompt',
+      timeout: undefined,
+      wait: false,
+      sound: false,
+    })
+  })
+
+  it('should make turn finished notifications sticky when configured', async () => {
+    await showTurnFinishedNotification('my-project', 45_000, {
+      show_notifications: true,
+      sticky_turn_finished_notify: true,
+    })
+
+    expect(mockNotify).toHaveBeenCalledWith(
+      expect.objectContaining({ timeout: 86400 }),
+    )
+  })
+
+  it('should not show turn finished notifications when disabled', async () => {
+    await showTurnFinishedNotification('my-project', 45_000, {
+      show_notifications: false,
+    })
+    await showTurnFinishedNotification('my-project', 45_000, {
+      show_notifications: true,
+      show_turn_finished_notify: false,
+    })
+
+    expect(mockNotify).not.toHaveBeenCalled()
+  })
 })
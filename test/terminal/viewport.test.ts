@@ -0,0 +1,242 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Terminal } from '@xterm/headless'
+import { findPromptRegion, readViewport } from '../../src/terminal/viewport'
+import { PatternMatcher } from '../../src/patterns/matcher'
+import type { TerminalViewport } from '../../src/terminal/types'
+
+function writeToTerminal(terminal: Terminal, data: string): Promise<void> {
+  return new Promise(resolve => terminal.write(data, resolve))
+}
+
+function createTerminal(rows: number): Terminal {
+  return new Terminal({
+    cols: 60,
+    rows,
+    scrollback: 100,
+    allowProposedApi: true,
+  })
+}
+
+const editPrompt = (fileName: string) =>
+  '╭──────────────╮\r\n' +
+  '│ Edit file    │\r\n' +
+  `│ Do you want to make this edit to ${fileName}? │\r\n` +
+  '╰──────────────╯'
+
+describe('Terminal viewport', () => {
+  it('should read only the rows on screen with absolute row numbers', async () => {
+    const terminal = createTerminal(5)
+    const output = Array.from({ length: 12 }, (_, i) => `line ${i}`).join(
+      '\r\n',
+    )
+    await writeToTerminal(terminal, output)
+
+    const viewport = readViewport(terminal)
+
+    expect(viewport.startRow).toBe(7)
+    expect(viewport.lines).toEqual([
+      'line 7',
+      'line 8',
+      'line 9',
+      'line 10',
+      'line 11',
+    ])
+    expect(viewport.cursorRow).toBe(11)
+    expect(viewport.cursorCol).toBe('line 11'.length)
+    terminal.dispose()
+  })
+
+  it('should find the lowest box at or above the cursor', () => {
+    const lines = ['╭─╮', '│a│', '╰─╯', 'text', '╭─╮', '│b│', '╰─╯', '']
+
+    expect(findPromptRegion(lines, 100, 107)).toEqual({
+      startRow: 104,
+      endRow: 106,
+    })
+    expect(findPromptRegion(lines, 100, 103)).toEqual({
+      startRow: 100,
+      endRow: 102,
+    })
+    expect(findPromptRegion(['plain', 'text'], 0, 1)).toBeUndefined()
+  })
+
+  describe('viewport matching', () => {
+    const createMatcher = () => {
+      const matcher = new PatternMatcher()
+      matcher.addPattern({
+        id: 'edit-file-prompt',
+        title: 'Edit file',
+        pattern: [
+          'Edit file',
+          'Do you want to make this edit to {{ fileName }}?',
+        ],
+        response: '1',
+      })
+      return matcher
+    }
+
+    it('should not match prompts that have scrolled out of view', async () => {
+      const terminal = createTerminal(6)
+      await writeToTerminal(
+        terminal,
+        editPrompt('old.ts') +
+          '\r\n' +
+          Array.from({ length: 8 }, (_, i) => `output ${i}`).join('\r\n'),
+      )
+
+      expect(createMatcher().processViewport(readViewport(terminal))).toEqual(
+        [],
+      )
+      terminal.dispose()
+    })
+
+    it('should carry absolute buffer rows', async () => {
+      const terminal = createTerminal(6)
+      await writeToTerminal(
+        terminal,
+        Array.from({ length: 10 }, (_, i) => `output ${i}`).join('\r\n') +
+          '\r\n' +
+          editPrompt('app.ts'),
+      )
+
+      const matches = createMatcher().processViewport(readViewport(terminal))
+
+      expect(matches).toHaveLength(1)
+      expect(matches[0].extractedData).toEqual({ fileName: 'app.ts' })
+      expect(matches[0].firstBufferRow).toBe(11)
+      expect(matches[0].lastBufferRow).toBe(12)
+      terminal.dispose()
+    })
+
+    it('should ignore matches above the active prompt box', () => {
+      const viewport: TerminalViewport = {
+        lines: [
+          'Edit file',
+          'Do you want to make this edit to old.ts?',
+          '╭──────╮',
+          '│ >    │',
+          '╰──────╯',
+        ],
+        startRow: 40,
+        cursorRow: 43,
+        cursorCol: 4,
+        promptRegion: { startRow: 42, endRow: 44 },
+      }
+
+      expect(createMatcher().processViewport(viewport)).toEqual([])
+    })
+
+    it('should skip evaluation when no rows have changed', () => {
+      const matcher = new PatternMatcher()
+      const response = vi.fn(() => '1')
+      matcher.addPattern({
+        id: 'edit-file-prompt',
+        title: 'Edit file',
+        pattern: [
+          'Edit file',
+          'Do you want to make this edit to {{ fileName }}?',
+        ],
+        response,
+      })
+      const viewport: TerminalViewport = {
+        lines: ['Edit file', 'Do you want to make this edit to app.ts?'],
+        startRow: 0,
+        cursorRow: 1,
+        cursorCol: 0,
+      }
+
+      expect(matcher.processViewport(viewport)).toHaveLength(1)
+      expect(
+        matcher.processViewport({ ...viewport, dirtyRegion: null }),
+      ).toHaveLength(0)
+      expect(response).toHaveBeenCalledTimes(1)
+
+      matcher.processViewport({
+        ...viewport,
+        dirtyRegion: { startRow: 1, endRow: 1 },
+      })
+      expect(response).toHaveBeenCalledTimes(2)
+    })
+
+    it('should match the same prompt again at a new position', () => {
+      const matcher = createMatcher()
+      const viewport: TerminalViewport = {
+        lines: ['Edit file', 'Do you want to make this edit to app.ts?'],
+        startRow: 10,
+        cursorRow: 11,
+        cursorCol: 0,
+      }
+
+      expect(matcher.processViewport(viewport)).toHaveLength(1)
+      expect(matcher.processViewport(viewport)).toHaveLength(0)
+      expect(
+        matcher.processViewport({ ...viewport, startRow: 20, cursorRow: 21 }),
+      ).toHaveLength(1)
+    })
+
+    it('should tell whether an earlier match is still on screen', () => {
+      const matcher = createMatcher()
+      const viewport: TerminalViewport = {
+        lines: ['Edit file', 'Do you want to make this edit to app.ts?', ''],
+        startRow: 10,
+        cursorRow: 12,
+        cursorCol: 0,
+      }
+      const [match] = matcher.processViewport(viewport)
+
+      expect(matcher.isMatchOnScreen(viewport, match)).toBe(true)
+      expect(
+        matcher.isMatchOnScreen(
+          { ...viewport, lines: ['Edit file', '', ''] },
+          match,
+        ),
+      ).toBe(false)
+      // The same prompt scrolled to another row is a different prompt
+      expect(
+        matcher.isMatchOnScreen(
+          { ...viewport, lines: ['', ...viewport.lines.slice(0, 2)] },
+          match,
+        ),
+      ).toBe(false)
+    })
+
+    it('should not take a new prompt at the same row for an earlier one', () => {
+      const matcher = createMatcher()
+      const viewport: TerminalViewport = {
+        lines: ['Edit file', 'Do you want to make this edit to app.ts?', ''],
+        startRow: 10,
+        cursorRow: 12,
+        cursorCol: 0,
+      }
+      const [match] = matcher.processViewport(viewport)
+
+      expect(
+        matcher.isMatchOnScreen(
+          {
+            ...viewport,
+            lines: [
+              'Edit file',
+              'Do you want to make this edit to lib.ts?',
+              '',
+            ],
+          },
+          match,
+        ),
+      ).toBe(false)
+    })
+
+    it('should still see a match after its pattern was removed', () => {
+      const matcher = createMatcher()
+      const viewport: TerminalViewport = {
+        lines: ['Edit file', 'Do you want to make this edit to app.ts?', ''],
+        startRow: 10,
+        cursorRow: 12,
+        cursorCol: 0,
+      }
+      const [match] = matcher.processViewport(viewport)
+      matcher.removePattern(match.patternId)
+
+      expect(matcher.isMatchOnScreen(viewport, match)).toBe(true)
+    })
+  })
+})
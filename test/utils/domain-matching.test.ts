@@ -1,24 +1,13 @@
 import { describe, it, expect } from 'vitest'
-
-function matchDomain(domain: string, patterns: string[]): boolean {
-  for (const pattern of patterns) {
-    if (pattern === domain) {
-      return true
-    }
-
-    if (pattern.includes('*')) {
-      const regexPattern = pattern
-        .split('*')
-        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
-        .join('.*')
-      const regex = new RegExp(`^${regexPattern}$`)
-      if (regex.test(domain)) {
-        return true
-      }
-    }
-  }
-  return false
-}
+import type { MatchResult } from '../../src/patterns/matcher'
+import type { AppConfig } from '../../src/config/schemas'
+import {
+  matchDomain,
+  matchesDomainEntry,
+  parseFetchUrl,
+  evaluateDomainPolicy,
+} from '../../src/rules/domain-policy'
+import { createMatch } from './test-matches'
 
 describe('Domain matching', () => {
   it('should match exact domains', () => {
@@ -97,3 +86,170 @@ describe('Domain matching', () => {
     expect(matchDomain('any.thing.example.com', patterns)).toBe(true)
   })
 })
+
+describe('Domain entries with URL path prefixes', () => {
+  it('should match entries without a path on the domain alone', () => {
+    expect(
+      matchesDomainEntry('docs.python.org', 'docs.python.org', undefined),
+    ).toBe(true)
+  })
+
+  it('should match path prefixes against the URL', () => {
+    const url = parseFetchUrl(
+      'https://github.com/possibilities/claude-composer',
+    )
+
+    expect(
+      matchesDomainEntry('github.com/possibilities/', 'github.com', url),
+    ).toBe(true)
+    expect(
+      matchesDomainEntry('github.com/someone-else/', 'github.com', url),
+    ).toBe(false)
+  })
+
+  it('should not match path prefixes without a URL', () => {
+    expect(
+      matchesDomainEntry('github.com/possibilities/', 'github.com', undefined),
+    ).toBe(false)
+  })
+
+  it('should match path prefixes on the domain alone when asked to without a URL', () => {
+    expect(
+      matchesDomainEntry(
+        'github.com/possibilities/',
+        'github.com',
+        undefined,
+        true,
+      ),
+    ).toBe(true)
+    expect(
+      matchesDomainEntry(
+        'github.com/possibilities/',
+        'gitlab.com',
+        undefined,
+        true,
+      ),
+    ).toBe(false)
+  })
+
+  it('should only match path prefixes at a path boundary', () => {
+    const entry = 'github.com/possibilities'
+
+    expect(
+      matchesDomainEntry(
+        entry,
+        'github.com',
+        parseFetchUrl('https://github.com/possibilities'),
+      ),
+    ).toBe(true)
+    expect(
+      matchesDomainEntry(
+        entry,
+        'github.com',
+        parseFetchUrl('https://github.com/possibilities/claude-composer'),
+      ),
+    ).toBe(true)
+    expect(
+      matchesDomainEntry(
+        entry,
+        'github.com',
+        parseFetchUrl('https://github.com/possibilities-fork/repo'),
+      ),
+    ).toBe(false)
+  })
+
+  it('should parse URLs without a scheme', () => {
+    expect(parseFetchUrl('example.com/docs')?.pathname).toBe('/docs')
+    expect(parseFetchUrl(undefined)).toBe(undefined)
+  })
+})
+
+describe('Domain policy', () => {
+  const appConfig: AppConfig = {
+    allowed_domains: [
+      'docs.python.org',
+      '*.mozilla.org',
+      'github.com/possibilities/',
+    ],
+    denied_domains: ['evil.mozilla.org'],
+  }
+
+  function createFetchMatch(domain: string, url: string): MatchResult {
+    return createMatch(
+      'fetch-content-prompt',
+      { domain, url },
+      { patternTitle: 'Fetch content' },
+    )
+  }
+
+  it('should accept allowed domains', () => {
+    expect(
+      evaluateDomainPolicy(
+        createFetchMatch('docs.python.org', 'https://docs.python.org/3/'),
+        appConfig,
+      ),
+    ).toBe('accept')
+    expect(
+      evaluateDomainPolicy(
+        createFetchMatch(
+          'developer.mozilla.org',
+          'https://developer.mozilla.org/en-US/',
+        ),
+        appConfig,
+      ),
+    ).toBe('accept')
+  })
+
+  it('should prompt for denied domains even when a wildcard allows them', () => {
+    expect(
+      evaluateDomainPolicy(
+        createFetchMatch('evil.mozilla.org', 'https://evil.mozilla.org/'),
+        appConfig,
+      ),
+    ).toBe('prompt')
+  })
+
+  it('should apply URL path prefix entries', () => {
+    expect(
+      evaluateDomainPolicy(
+        createFetchMatch(
+          'github.com',
+          'https://github.com/possibilities/claude-composer',
+        ),
+        appConfig,
+      ),
+    ).toBe('accept')
+    expect(
+      evaluateDomainPolicy(
+        createFetchMatch('github.com', 'https://github.com/other/repo'),
+        appConfig,
+      ),
+    ).toBe(undefined)
+  })
+
+  it('should prompt for denied path prefixes when the URL is unknown', () => {
+    const config: AppConfig = {
+      allowed_domains: ['github.com'],
+      denied_domains: ['github.com/private-org/'],
+    }
+
+    expect(
+      evaluateDomainPolicy(createFetchMatch('github.com', ''), config),
+    ).toBe('prompt')
+    expect(
+      evaluateDomainPolicy(
+        createFetchMatch('github.com', 'https://github.com/public-org/repo'),
+        config,
+      ),
+    ).toBe('accept')
+  })
+
+  it('should leave unknown hosts undecided', () => {
+    expect(
+      evaluateDomainPolicy(
+        createFetchMatch('example.com', 'https://example.com/'),
+        appConfig,
+      ),
+    ).toBe(undefined)
+  })
+})
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { execSync } from 'child_process'
+import { PassThrough } from 'stream'
+import {
+  BellBackend,
+  CommandBackend,
+  FileBackend,
+  OscBackend,
+  WebhookBackend,
+  createNotificationBackends,
+  type Notification,
+} from '../../src/utils/notification-backends'
+import { showNotification, notifier } from '../../src/utils/notifications'
+
+vi.mock('node-notifier', () => ({
+  default: {
+    notify: vi.fn(),
+  },
+}))
+
+const mockNotify = vi.mocked(notifier.notify)
+
+const notification: Notification = {
+  title: '🤖 Claude Composer',
+  message: 'Edit file\nProject: my-project',
+  sticky: false,
+  type: 'prompted_confirmation',
+}
+
+function capture(): { output: PassThrough; written: () => string } {
+  const output = new PassThrough()
+  let written = ''
+  output.on('data', chunk => (written += chunk.toString()))
+  return { output, written: () => written }
+}
+
+describe('Notification backends', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'notification-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should write OSC 9 and OSC 777 sequences on one line', async () => {
+    const osc9 = capture()
+    await new OscBackend(9, osc9.output).send(notification)
+    expect(osc9.written()).toBe(
+      '\x1b]9;🤖 Claude Composer: Edit file - Project: my-project\x07',
+    )
+
+    const osc777 = capture()
+    await new OscBackend(777, osc777.output).send({
+      ...notification,
+      title: 'a;b',
+    })
+    expect(osc777.written()).toBe(
+      '\x1b]777;notify;a,b;Edit file - Project: my-project\x07',
+    )
+  })
+
+  it('should not let messages end the escape sequence early', async () => {
+    const { output, written } = capture()
+    await new OscBackend(9, output).send({
+      ...notification,
+      message: 'rm -rf\x07\x1b[2J',
+    })
+
+    expect(written()).toBe('\x1b]9;🤖 Claude Composer: rm -rf  [2J\x07')
+  })
+
+  it('should ring the bell', async () => {
+    const { output, written } = capture()
+    await new BellBackend(output).send()
+
+    expect(written()).toBe('\x07')
+  })
+
+  it('should append JSON lines to a file', async () => {
+    const filePath = path.join(testDir, 'notifications.log')
+    const backend = new FileBackend(filePath)
+
+    await backend.send(notification)
+    await backend.send({ ...notification, message: 'Second' })
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n')
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[0])).toMatchObject({
+      type: 'prompted_confirmation',
+      title: '🤖 Claude Composer',
+      message: 'Edit file\nProject: my-project',
+    })
+    expect(JSON.parse(lines[1]).message).toBe('Second')
+  })
+
+  it.skipIf(process.platform === 'win32')(
+    'should fail instead of blocking on a FIFO without a reader',
+    async () => {
+      const fifoPath = path.join(testDir, 'notifications.fifo')
+      execSync(`mkfifo "${fifoPath}"`)
+
+      await expect(
+        new FileBackend(fifoPath).send(notification),
+      ).rejects.toThrow(/ENXIO/)
+    },
+  )
+
+  it('should run a command with the message on stdin', async () => {
+    const outputPath = path.join(testDir, 'command.txt')
+    const backend = new CommandBackend(
+      `cat > "${outputPath}"; printf '\\n%s' "$CLAUDE_COMPOSER_NOTIFICATION_TYPE" >> "${outputPath}"`,
+    )
+
+    await backend.send(notification)
+
+    expect(fs.readFileSync(outputPath, 'utf8')).toBe(
+      'Edit file\nProject: my-project\nprompted_confirmation',
+    )
+  })
+
+  it('should reject when the command fails', async () => {
+    await expect(
+      new CommandBackend('exit 3').send(notification),
+    ).rejects.toThrow('Notification command exited with code 3: exit 3')
+  })
+
+  it('should POST JSON to a webhook', async () => {
+    let received: { headers: http.IncomingHttpHeaders; body: string } | null =
+      null
+    const server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => (body += chunk))
+      req.on('end', () => {
+        received = { headers: req.headers, body }
+        res.statusCode = req.url === '/fail' ? 500 : 204
+        res.end()
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as { port: number }
+
+    try {
+      await new WebhookBackend(`http://127.0.0.1:${port}/notify`, {
+        Authorization: 'Bearer token',
+      }).send(notification)
+
+      expect(received!.headers['content-type']).toBe('application/json')
+      expect(received!.headers.authorization).toBe('Bearer token')
+      expect(JSON.parse(received!.body)).toMatchObject({
+        type: 'prompted_confirmation',
+        title: '🤖 Claude Composer',
+        message: 'Edit file\nProject: my-project',
+        sticky: false,
+      })
+
+      await expect(
+        new WebhookBackend(`http://127.0.0.1:${port}/fail`).send(notification),
+      ).rejects.toThrow('Notification webhook returned 500')
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+
+  it('should create backends from names and settings', () => {
+    const backends = createNotificationBackends([
+      'osc',
+      'bell',
+      { type: 'file', path: '~/notifications.log' },
+      { type: 'command', command: 'cat' },
+    ])
+
+    expect(backends.map(backend => backend.name)).toEqual([
+      'osc',
+      'bell',
+      'file',
+      'command',
+    ])
+    expect(createNotificationBackends().map(backend => backend.name)).toEqual([
+      'node-notifier',
+    ])
+  })
+
+  it('should send to every configured backend even if one fails', async () => {
+    const filePath = path.join(testDir, 'notifications.log')
+
+    await showNotification(
+      { message: 'Done' },
+      {
+        notifications: {
+          backends: [
+            { type: 'command', command: 'exit 1' },
+            'node-notifier',
+            { type: 'file', path: filePath },
+          ],
+        },
+      },
+    )
+
+    expect(mockNotify).toHaveBeenCalledOnce()
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8')).message).toBe('Done')
+  })
+})
@@ -0,0 +1,25 @@
+import type { MatchResult } from '../../src/patterns/matcher'
+
+/**
+ * A match for the given pattern that answers with option 1. The matched
+ * text and buffer are empty unless overridden.
+ */
+export function createMatch(
+  patternId: string,
+  extractedData?: Record<string, string>,
+  overrides: Partial<MatchResult> = {},
+): MatchResult {
+  return {
+    patternId,
+    patternTitle: patternId,
+    response: '1',
+    matchedText: '',
+    fullMatchedContent: '',
+    firstLineNumber: 0,
+    lastLineNumber: 0,
+    bufferContent: '',
+    strippedBufferContent: '',
+    extractedData,
+    ...overrides,
+  }
+}
@@ -41,5 +41,6 @@ export default defineConfig({
   },
   onSuccess: async () => {
     copyDir('src/internal-toolsets', 'dist/internal-toolsets')
+    copyDir('src/internal-rulesets', 'dist/internal-rulesets')
   },
 })